@@ -0,0 +1,194 @@
+/**
+ * CodeDuck - Admin HTTP API
+ *
+ * Authenticated endpoints for operators to inspect, cancel and retry jobs
+ */
+
+import crypto from "crypto";
+import { Router, type Request, type Response, type NextFunction } from "express";
+import type { JobRecord, JobStatus, JobStore } from "../jobs/job-store.js";
+import type { WorkerPool } from "../jobs/worker-pool.js";
+import type { SessionInfo } from "../agent/session-store.js";
+import { parseCommand } from "../commands/parser.js";
+
+/**
+ * Dependencies the admin API needs from the server
+ */
+export interface AdminDependencies {
+  token: string | undefined;
+  jobStore: JobStore;
+  workerPool: WorkerPool;
+  cancelJob: (id: string) => boolean;
+  retryJob: (id: string) => boolean;
+  listSessions: () => SessionInfo[];
+}
+
+/**
+ * Operator-facing summary of a job
+ */
+export interface JobView {
+  deliveryId: string;
+  event: string;
+  status: JobStatus;
+  repo: string | null;
+  issue: number | null;
+  command: string | null;
+  provider: string | null;
+  attempts: number;
+  position: number | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+const JOB_STATUSES: JobStatus[] = ["queued", "running", "succeeded", "failed"];
+const DEFAULT_LIST_LIMIT = 50;
+
+function toIso(timestamp: number | undefined): string | null {
+  return timestamp === undefined ? null : new Date(timestamp).toISOString();
+}
+
+/**
+ * Build the operator-facing view of a job record
+ */
+export function toJobView(job: JobRecord, position?: number): JobView {
+  const { payload } = job;
+  const commentBody = payload.comment?.body;
+  const parsed = commentBody ? parseCommand(commentBody) : null;
+
+  let durationMs: number | null = null;
+  if (job.startedAt !== undefined) {
+    durationMs = (job.finishedAt ?? Date.now()) - job.startedAt;
+  }
+
+  return {
+    deliveryId: job.id,
+    event: job.event,
+    status: job.status,
+    repo: payload.repository?.full_name ?? null,
+    issue: payload.issue?.number ?? payload.pull_request?.number ?? null,
+    command: parsed?.original ?? null,
+    provider: job.provider ?? null,
+    attempts: job.attempts,
+    position: position ?? null,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: toIso(job.startedAt),
+    finishedAt: toIso(job.finishedAt),
+    durationMs,
+    error: job.error ?? null,
+  };
+}
+
+/**
+ * Require `Authorization: Bearer <ADMIN_API_TOKEN>`
+ * The API is disabled entirely when no token is configured.
+ */
+function requireAdminToken(token: string | undefined) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!token) {
+      res.status(404).json({ error: "Admin API is disabled" });
+      return;
+    }
+
+    const header = req.headers.authorization || "";
+    const provided = header.startsWith("Bearer ") ? header.slice("Bearer ".length) : "";
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(provided);
+
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Create the admin router (mounted under /admin)
+ */
+export function createAdminRouter(deps: AdminDependencies): Router {
+  const router = Router();
+  router.use(requireAdminToken(deps.token));
+
+  const positionOf = (id: string) => deps.workerPool.getPosition(id);
+
+  /**
+   * List jobs, newest first. Supports ?status= and ?limit=
+   */
+  router.get("/jobs", (req: Request, res: Response) => {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+      res.status(400).json({ error: `Unknown status: ${status}` });
+      return;
+    }
+
+    const limitParam = typeof req.query.limit === "string" ? parseInt(req.query.limit, 10) : NaN;
+    const limit = Number.isNaN(limitParam) || limitParam <= 0 ? DEFAULT_LIST_LIMIT : limitParam;
+
+    const jobs = deps.jobStore
+      .listJobs()
+      .filter((job) => !status || job.status === status)
+      .reverse()
+      .slice(0, limit)
+      .map((job) => toJobView(job, positionOf(job.id)));
+
+    res.json({ pool: deps.workerPool.getStatus(), jobs });
+  });
+
+  /**
+   * Inspect a single job, including its raw payload
+   */
+  router.get("/jobs/:id", (req: Request<{ id: string }>, res: Response) => {
+    const job = deps.jobStore.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    res.json({ job: toJobView(job, positionOf(job.id)), payload: job.payload });
+  });
+
+  /**
+   * Cancel a queued or running job
+   */
+  router.post("/jobs/:id/cancel", (req: Request<{ id: string }>, res: Response) => {
+    const job = deps.jobStore.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    if (!deps.cancelJob(job.id)) {
+      res.status(409).json({ error: `Job is already ${job.status}` });
+      return;
+    }
+    res.json({ job: toJobView(deps.jobStore.getJob(job.id) ?? job) });
+  });
+
+  /**
+   * Re-queue a failed job
+   */
+  router.post("/jobs/:id/retry", (req: Request<{ id: string }>, res: Response) => {
+    const job = deps.jobStore.getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: "Job not found" });
+      return;
+    }
+    if (!deps.retryJob(job.id)) {
+      res.status(409).json({ error: `Only failed jobs can be retried (job is ${job.status})` });
+      return;
+    }
+    const retried = deps.jobStore.getJob(job.id) ?? job;
+    res.status(202).json({ job: toJobView(retried, positionOf(job.id)) });
+  });
+
+  /**
+   * List active agent sessions
+   */
+  router.get("/sessions", (_req: Request, res: Response) => {
+    res.json({ sessions: deps.listSessions() });
+  });
+
+  return router;
+}
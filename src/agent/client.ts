@@ -5,44 +5,112 @@
  * Sessions are persisted to disk for recovery after restart
  */
 
+import { randomUUID } from "crypto";
 import { unstable_v2_prompt } from "@anthropic-ai/claude-agent-sdk";
-import type { CommandMode, GitHubContext, AgentResponse, ProviderOverride } from "../utils/types.js";
+import type {
+  CommandMode,
+  GitHubContext,
+  AgentResponse,
+  AgentStreamEvent,
+  ProviderOverride,
+} from "../utils/types.js";
+import type { RuntimeConfig } from "../config/runtime-config.js";
 import { AsyncKeyedLock } from "../utils/async-lock.js";
-import { SessionStore, type SessionInfo } from "./session-store.js";
+import { SessionStore, type ReviewRecord, type SessionInfo } from "./session-store.js";
 import { getSystemPrompt } from "./system-prompt.js";
 import { getProvider, resolveProviderId } from "./providers/registry.js";
 import { getClaudeSessionOptions } from "./providers/claude.js";
+import { cancelledResponse } from "./providers/types.js";
 
 /**
- * Session storage directory
+ * Session key for tracking sessions per issue/PR, or per review thread
+ * so conversations in separate inline threads do not share history
  */
-const SESSION_DIR = process.env.SESSION_DIR || "/tmp/codeduck-sessions";
+function getSessionKey(context: GitHubContext): string {
+  const key = `${context.owner}/${context.repo}#${context.issueNumber}`;
+  return context.reviewThread ? `${key}/thread-${context.reviewThread.rootCommentId}` : key;
+}
 
 /**
- * Session key for tracking sessions per issue/PR
+ * Session key for a run: the context's own, or a fresh one for ephemeral
+ * runs so they neither resume nor leave behind the context's conversation
  */
-function getSessionKey(context: GitHubContext): string {
-  return `${context.owner}/${context.repo}#${context.issueNumber}`;
+function getRunSessionKey(context: GitHubContext, ephemeral?: boolean): string {
+  const key = getSessionKey(context);
+  return ephemeral ? `${key}/ephemeral-${randomUUID()}` : key;
+}
+
+/**
+ * Per-run settings for a session query
+ */
+export interface SessionRunOptions {
+  /** Directory the agent works in (a job workspace) */
+  cwd?: string;
+  /** Aborts the run, e.g. when its job is cancelled */
+  signal?: AbortSignal;
+  /** Model to use instead of the provider's default */
+  model?: string;
+  /** Installation token the agent may use for gh and git; omitted, it gets none */
+  githubToken?: string;
+  /** One-off run (e.g. triage) outside the context's conversation; its session is discarded */
+  ephemeral?: boolean;
 }
 
 // Session TTL: 24 hours (prevents unbounded memory growth)
 const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 
-const sessionStore = new SessionStore({
-  dir: SESSION_DIR,
-  ttlMs: SESSION_TTL_MS,
-});
+// Created by initSessions once the configuration is validated
+let sessionStore: SessionStore;
+let cleanupInterval: ReturnType<typeof setInterval> | undefined;
 
 // Session locks for concurrent command handling (per session key)
 const sessionLock = new AsyncKeyedLock();
 
+// Abort controllers for in-flight and lock-waiting runs (per session key)
+const activeRuns = new Map<string, Set<AbortController>>();
+
 /**
- * Load all persisted sessions on startup
+ * Register a run so it can be cancelled, linking it to an optional caller signal
  */
-sessionStore.loadAllPersistedSessions();
+function registerRun(sessionKey: string, signal?: AbortSignal): { controller: AbortController; unregister: () => void } {
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", onCallerAbort, { once: true });
+  }
 
-// Start periodic cleanup (every hour)
-const cleanupInterval = setInterval(() => sessionStore.cleanupExpiredSessions(), 60 * 60 * 1000);
+  const runs = activeRuns.get(sessionKey) ?? new Set<AbortController>();
+  runs.add(controller);
+  activeRuns.set(sessionKey, runs);
+
+  const unregister = () => {
+    signal?.removeEventListener("abort", onCallerAbort);
+    runs.delete(controller);
+    if (runs.size === 0 && activeRuns.get(sessionKey) === runs) {
+      activeRuns.delete(sessionKey);
+    }
+  };
+
+  return { controller, unregister };
+}
+
+/**
+ * Set up the session store from the validated configuration, loading the
+ * sessions persisted before a restart
+ */
+export function initSessions(config: RuntimeConfig): void {
+  sessionStore = new SessionStore({
+    dir: config.agents.sessionDir,
+    ttlMs: SESSION_TTL_MS,
+  });
+  sessionStore.loadAllPersistedSessions();
+
+  // Start periodic cleanup (every hour)
+  clearInterval(cleanupInterval);
+  cleanupInterval = setInterval(() => sessionStore.cleanupExpiredSessions(), 60 * 60 * 1000);
+}
 
 /**
  * Shutdown function to clean up resources
@@ -51,6 +119,31 @@ export function shutdown(): void {
   clearInterval(cleanupInterval);
 }
 
+/**
+ * Drop a stored session that cannot be resumed by this run
+ * (different provider, or a different working directory)
+ */
+function clearStaleSession(sessionKey: string, providerId: string, cwd?: string): void {
+  const sessionInfo = sessionStore.getSession(sessionKey);
+  // An entry that only holds a review has no conversation to go stale
+  if (!sessionInfo?.sessionId) {
+    return;
+  }
+
+  if (sessionInfo.provider && sessionInfo.provider !== providerId) {
+    console.log(`[AGENT] Provider changed (${sessionInfo.provider} -> ${providerId}), clearing session`);
+    sessionStore.deleteSession(sessionKey);
+    return;
+  }
+
+  const previousCwd = sessionInfo.cwd ?? process.cwd();
+  const nextCwd = cwd ?? process.cwd();
+  if (previousCwd !== nextCwd) {
+    console.log(`[AGENT] Working directory changed (${previousCwd} -> ${nextCwd}), clearing session`);
+    sessionStore.deleteSession(sessionKey);
+  }
+}
+
 /**
  * Execute a one-shot query using V2 API
  */
@@ -111,9 +204,10 @@ export async function executeSessionQuery(
   prompt: string,
   mode: CommandMode = "read",
   providerOverride?: ProviderOverride,
-  _cwd?: string
+  options: SessionRunOptions = {}
 ): Promise<AgentResponse> {
-  const sessionKey = getSessionKey(context);
+  const { cwd, signal, model, githubToken, ephemeral } = options;
+  const sessionKey = getRunSessionKey(context, ephemeral);
   const providerId = resolveProviderId(providerOverride);
   const provider = getProvider(providerId);
   const systemPrompt = getSystemPrompt(mode, {
@@ -124,17 +218,21 @@ export async function executeSessionQuery(
   console.log(`[AGENT] Starting ${providerId} session for ${sessionKey}`);
   console.log(`[AGENT] Mode: ${mode}, Prompt: "${prompt.slice(0, 100)}..."`);
 
+  const { controller, unregister } = registerRun(sessionKey, signal);
+
   // Acquire session lock to prevent concurrent access
   const releaseLock = await sessionLock.acquire(sessionKey);
   console.log(`[AGENT] Lock acquired for ${sessionKey}`);
 
   try {
-    const sessionInfo = sessionStore.getSession(sessionKey);
-    if (sessionInfo?.provider && sessionInfo.provider !== providerId) {
-      console.log(`[AGENT] Provider changed (${sessionInfo.provider} -> ${providerId}), clearing session`);
-      sessionStore.deleteSession(sessionKey);
+    // Stopped while waiting for the lock
+    if (controller.signal.aborted) {
+      console.log(`[AGENT] Run for ${sessionKey} cancelled before start`);
+      return cancelledResponse();
     }
 
+    clearStaleSession(sessionKey, providerId, cwd);
+
     return await provider.runSession({
       context,
       prompt,
@@ -142,8 +240,15 @@ export async function executeSessionQuery(
       sessionKey,
       sessionStore,
       systemPrompt,
+      signal: controller.signal,
+      cwd,
+      model,
+      githubToken,
     });
   } catch (error) {
+    if (controller.signal.aborted) {
+      return cancelledResponse();
+    }
     console.error(`[AGENT] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
     return {
       success: false,
@@ -152,22 +257,28 @@ export async function executeSessionQuery(
     };
   } finally {
     // Always release the session lock
+    unregister();
     releaseLock();
+    if (ephemeral) {
+      sessionStore.deleteSession(sessionKey);
+    }
     console.log(`[AGENT] Lock released for ${sessionKey}`);
   }
 }
 
 /**
  * Execute a streaming session query
+ * Yields progress events and always finishes with a single result event
  */
 export async function* executeSessionStreaming(
   context: GitHubContext,
   prompt: string,
   mode: CommandMode = "read",
   providerOverride?: ProviderOverride,
-  _cwd?: string
-): AsyncGenerator<string, void, unknown> {
-  const sessionKey = getSessionKey(context);
+  options: SessionRunOptions = {}
+): AsyncGenerator<AgentStreamEvent, void, unknown> {
+  const { cwd, signal, model, githubToken, ephemeral } = options;
+  const sessionKey = getRunSessionKey(context, ephemeral);
   const providerId = resolveProviderId(providerOverride);
   const provider = getProvider(providerId);
   const systemPrompt = getSystemPrompt(mode, {
@@ -175,45 +286,91 @@ export async function* executeSessionStreaming(
     supportsBash: provider.capabilities.supportsBash && mode === "write",
   });
 
+  console.log(`[AGENT] Starting streaming ${providerId} session for ${sessionKey}`);
+
+  const { controller, unregister } = registerRun(sessionKey, signal);
   const releaseLock = await sessionLock.acquire(sessionKey);
 
   try {
-    const sessionInfo = sessionStore.getSession(sessionKey);
-    if (sessionInfo?.provider && sessionInfo.provider !== providerId) {
-      sessionStore.deleteSession(sessionKey);
-    }
-
-    if (provider.runSessionStream) {
-      for await (const chunk of provider.runSessionStream({
-        context,
-        prompt,
-        mode,
-        sessionKey,
-        sessionStore,
-        systemPrompt,
-      })) {
-        yield chunk;
-      }
+    if (controller.signal.aborted) {
+      yield { type: "result", response: cancelledResponse() };
       return;
     }
 
-    const result = await provider.runSession({
+    clearStaleSession(sessionKey, providerId, cwd);
+
+    const runOptions = {
       context,
       prompt,
       mode,
       sessionKey,
       sessionStore,
       systemPrompt,
-    });
+      signal: controller.signal,
+      cwd,
+      model,
+      githubToken,
+    };
 
-    if (result.success) {
-      yield result.result;
-    } else {
-      yield `[Error: ${result.error || "Session error"}]`;
+    if (provider.runSessionStream) {
+      for await (const event of provider.runSessionStream(runOptions)) {
+        yield event;
+        if (event.type === "result") {
+          return;
+        }
+      }
+      // Providers should always finish with a result; treat a bare end as cancelled or empty
+      yield {
+        type: "result",
+        response: controller.signal.aborted ? cancelledResponse() : { success: true, result: "" },
+      };
+      return;
     }
+
+    yield { type: "result", response: await provider.runSession(runOptions) };
+  } catch (error) {
+    if (controller.signal.aborted) {
+      yield { type: "result", response: cancelledResponse() };
+      return;
+    }
+    console.error(`[AGENT] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
+    yield {
+      type: "result",
+      response: {
+        success: false,
+        result: "",
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    };
   } finally {
+    unregister();
     releaseLock();
+    if (ephemeral) {
+      sessionStore.deleteSession(sessionKey);
+    }
+  }
+}
+
+/**
+ * Abort every in-flight or lock-waiting run for a GitHub context
+ * Returns the number of runs that were cancelled
+ */
+export function cancelSession(context: GitHubContext): number {
+  const sessionKey = getSessionKey(context);
+  const runs = activeRuns.get(sessionKey);
+  if (!runs) {
+    return 0;
+  }
+
+  let cancelled = 0;
+  for (const controller of runs) {
+    if (!controller.signal.aborted) {
+      controller.abort();
+      cancelled++;
+    }
   }
+  console.log(`[AGENT] Cancelled ${cancelled} run(s) for ${sessionKey}`);
+  return cancelled;
 }
 
 /**
@@ -232,6 +389,14 @@ export function getSessionInfo(context: GitHubContext): SessionInfo | undefined
   return sessionStore.getSession(sessionKey);
 }
 
+/**
+ * Remember the review just submitted for a context, so the next review can
+ * look only at newer commits
+ */
+export function recordReview(context: GitHubContext, review: ReviewRecord): void {
+  sessionStore.recordReview(getSessionKey(context), context, review);
+}
+
 /**
  * List all active sessions
  */
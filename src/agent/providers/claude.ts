@@ -1,26 +1,90 @@
-import {
-  unstable_v2_createSession,
-  unstable_v2_resumeSession,
-} from "@anthropic-ai/claude-agent-sdk";
-import type { ProviderAdapter, ProviderRunOptions } from "./types.js";
+import { query } from "@anthropic-ai/claude-agent-sdk";
+import { getRuntimeConfig } from "../../config/runtime-config.js";
+import { cancelledResponse, type ProviderAdapter, type ProviderRunOptions } from "./types.js";
 
-export function getClaudeSessionOptions(systemPrompt: string, hasBash: boolean) {
-  const allowedTools = hasBash ? ["Read", "Bash", "Glob", "Grep"] : ["Read", "Glob", "Grep"];
+export function getClaudeSessionOptions(
+  systemPrompt: string,
+  hasBash: boolean,
+  model?: string,
+  githubToken?: string,
+  settings = getRuntimeConfig().agents.claude
+) {
+  // Write mode runs inside an isolated job workspace, so file edits are allowed there
+  const allowedTools = hasBash
+    ? ["Read", "Edit", "Write", "Bash", "Glob", "Grep"]
+    : ["Read", "Glob", "Grep"];
 
   return {
-    model: "MiniMax-M2.1",
+    model: model ?? "MiniMax-M2.1",
     allowedTools,
     env: {
-      ANTHROPIC_BASE_URL: process.env.ANTHROPIC_BASE_URL || "https://api.minimax.io/anthropic",
-      ANTHROPIC_API_KEY: process.env.MINIMAX_API_KEY || "",
+      ANTHROPIC_BASE_URL: settings.baseUrl,
+      ANTHROPIC_API_KEY: settings.apiKey ?? "",
       PATH: process.env.PATH || "/usr/local/bin:/opt/homebrew/bin:/usr/bin:/bin",
-      GH_TOKEN: process.env.GH_TOKEN || "",
+      GH_TOKEN: githubToken ?? "",
     },
     systemPrompt,
     maxTurns: 50,
   };
 }
 
+/**
+ * Describe a tool call as a short, human-readable progress step
+ */
+function describeToolUse(name: string, input: unknown): string {
+  const args = (input ?? {}) as Record<string, unknown>;
+  const pick = (key: string) => (typeof args[key] === "string" ? (args[key] as string) : undefined);
+
+  switch (name) {
+    case "Read":
+      return pick("file_path") ? `Reading \`${pick("file_path")}\`` : "Reading files";
+    case "Grep":
+      return pick("pattern") ? `Searching for \`${pick("pattern")}\`` : "Searching the code";
+    case "Glob":
+      return pick("pattern") ? `Finding files matching \`${pick("pattern")}\`` : "Finding files";
+    case "Bash":
+      return pick("command") ? `Running \`${pick("command")}\`` : "Running a command";
+    default:
+      return `Using ${name}`;
+  }
+}
+
+/**
+ * Start (or resume) a Claude Code run in the requested working directory
+ *
+ * Uses query() rather than the V2 session API because only query() accepts a
+ * cwd; resuming is done by session ID. Aborting the caller's signal kills the
+ * Claude Code subprocess.
+ */
+function startClaudeQuery(options: ProviderRunOptions) {
+  const { prompt, mode, sessionKey, sessionStore, systemPrompt, signal, cwd, model, githubToken } = options;
+  const sessionOptions = getClaudeSessionOptions(systemPrompt, mode === "write", model, githubToken);
+  const sessionInfo = sessionStore.getSession(sessionKey);
+
+  const abortController = new AbortController();
+  const onAbort = () => {
+    console.log(`[AGENT][CLAUDE] Abort requested, stopping Claude Code`);
+    abortController.abort();
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const messages = query({
+    prompt,
+    options: {
+      ...sessionOptions,
+      cwd: cwd ?? process.cwd(),
+      resume: sessionInfo?.sessionId || undefined,
+      abortController,
+    },
+  });
+
+  return {
+    messages,
+    sessionInfo,
+    dispose: () => signal?.removeEventListener("abort", onAbort),
+  };
+}
+
 export const claudeProvider: ProviderAdapter = {
   id: "claude",
   displayName: "Claude Agent SDK",
@@ -30,44 +94,43 @@ export const claudeProvider: ProviderAdapter = {
     supportsBash: true,
   },
   async runSession(options: ProviderRunOptions) {
-    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt } = options;
-    const hasBash = mode === "write";
-    const sessionOptions = getClaudeSessionOptions(systemPrompt, hasBash);
-    const sessionInfo = sessionStore.getSession(sessionKey);
+    const { context, sessionKey, sessionStore, signal, cwd } = options;
 
     console.log(`[AGENT][CLAUDE] Session key: ${sessionKey}`);
-    console.log(`[AGENT][CLAUDE] Existing session: ${sessionInfo ? sessionInfo.sessionId : "none"}`);
 
-    try {
-      const session = sessionInfo
-        ? unstable_v2_resumeSession(sessionInfo.sessionId, sessionOptions)
-        : unstable_v2_createSession(sessionOptions);
+    if (signal?.aborted) {
+      return cancelledResponse();
+    }
 
+    const { messages, sessionInfo, dispose } = startClaudeQuery(options);
+    console.log(`[AGENT][CLAUDE] Existing session: ${sessionInfo?.sessionId || "none"}`);
+
+    try {
       console.log(`[AGENT][CLAUDE] Sending prompt to MiniMax...`);
-      await session.send(prompt);
 
       let result = "";
       let sessionId: string | undefined;
       let messageCount = 0;
 
-      for await (const message of session.stream()) {
+      for await (const message of messages) {
+        if (signal?.aborted) {
+          return cancelledResponse();
+        }
         messageCount++;
         const subtype = "subtype" in message ? (message as { subtype: string }).subtype : "none";
         console.log(`[AGENT][CLAUDE] Message ${messageCount}: type=${message.type}, subtype=${subtype}`);
 
-        if (message.type === "system") {
-          const sysMsg = message as { subtype: string; session_id: string };
-          if (sysMsg.subtype === "init") {
-            sessionId = sysMsg.session_id;
-            console.log(`[AGENT][CLAUDE] Session ID: ${sessionId}`);
-            sessionStore.saveSession(sessionKey, {
-              sessionId,
-              context,
-              createdAt: Date.now(),
-              provider: "claude",
-            });
-            console.log(`[AGENT][CLAUDE] Session saved`);
-          }
+        if (message.type === "system" && message.subtype === "init") {
+          sessionId = message.session_id;
+          console.log(`[AGENT][CLAUDE] Session ID: ${sessionId}`);
+          sessionStore.saveSession(sessionKey, {
+            sessionId,
+            context,
+            createdAt: Date.now(),
+            provider: "claude",
+            cwd,
+          });
+          console.log(`[AGENT][CLAUDE] Session saved`);
         }
 
         if (message.type === "assistant") {
@@ -97,61 +160,104 @@ export const claudeProvider: ProviderAdapter = {
         }
       }
 
+      if (signal?.aborted) {
+        return cancelledResponse();
+      }
+
       console.log(`[AGENT][CLAUDE] Stream complete, result: "${result.slice(0, 200)}..."`);
       return { success: true, result };
     } catch (error) {
+      if (signal?.aborted) {
+        return cancelledResponse();
+      }
       console.error(`[AGENT][CLAUDE] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
       return {
         success: false,
         result: "",
         error: error instanceof Error ? error.message : "Unknown error",
       };
+    } finally {
+      dispose();
     }
   },
   async *runSessionStream(options: ProviderRunOptions) {
-    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt } = options;
-    const hasBash = mode === "write";
-    const sessionOptions = getClaudeSessionOptions(systemPrompt, hasBash);
-    const sessionInfo = sessionStore.getSession(sessionKey);
-
-    const session = sessionInfo
-      ? unstable_v2_resumeSession(sessionInfo.sessionId, sessionOptions)
-      : unstable_v2_createSession(sessionOptions);
-
-    await session.send(prompt);
-
-    for await (const message of session.stream()) {
-      if (message.type === "system" && message.subtype === "init") {
-        const sessionId = message.session_id;
-        sessionStore.saveSession(sessionKey, {
-          sessionId,
-          context,
-          createdAt: Date.now(),
-          provider: "claude",
-        });
-      }
+    const { context, sessionKey, sessionStore, signal, cwd } = options;
 
-      if (message.type === "assistant") {
-        const content = message.message.content;
-        if (typeof content === "string") {
-          yield content;
-        } else if (Array.isArray(content)) {
-          for (const block of content) {
-            if (block.type === "text") {
-              yield block.text;
+    if (signal?.aborted) {
+      yield { type: "result", response: cancelledResponse() };
+      return;
+    }
+
+    const { messages, dispose } = startClaudeQuery(options);
+    let lastText = "";
+
+    try {
+      for await (const message of messages) {
+        if (signal?.aborted) {
+          break;
+        }
+
+        if (message.type === "system" && message.subtype === "init") {
+          const sessionId = message.session_id;
+          sessionStore.saveSession(sessionKey, {
+            sessionId,
+            context,
+            createdAt: Date.now(),
+            provider: "claude",
+            cwd,
+          });
+        }
+
+        if (message.type === "assistant") {
+          const content = message.message.content;
+          if (typeof content === "string") {
+            lastText = content;
+            yield { type: "text", text: content };
+          } else if (Array.isArray(content)) {
+            for (const block of content) {
+              if (block.type === "text") {
+                lastText = block.text;
+                yield { type: "text", text: block.text };
+              } else if (block.type === "tool_use") {
+                yield { type: "step", text: describeToolUse(block.name, block.input) };
+              }
             }
           }
         }
-      }
 
-      if (message.type === "result") {
-        if (message.subtype === "success") {
-          yield message.result;
-        } else {
-          yield `[Error: ${message.subtype || "Session error"}]`;
+        if (message.type === "result") {
+          if (message.subtype === "success") {
+            yield { type: "result", response: { success: true, result: message.result } };
+          } else {
+            yield {
+              type: "result",
+              response: { success: false, result: "", error: message.subtype || "Session error" },
+            };
+          }
           return;
         }
       }
+
+      yield {
+        type: "result",
+        response: signal?.aborted ? cancelledResponse() : { success: true, result: lastText },
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        yield { type: "result", response: cancelledResponse() };
+        return;
+      }
+      console.error(`[AGENT][CLAUDE] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
+      yield {
+        type: "result",
+        response: {
+          success: false,
+          result: "",
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      };
+    } finally {
+      dispose();
     }
   },
 };
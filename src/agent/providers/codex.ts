@@ -1,21 +1,35 @@
-import { Codex, type CodexOptions, type ThreadOptions } from "@openai/codex-sdk";
-import type { ProviderAdapter, ProviderRunOptions } from "./types.js";
+import { Codex, type CodexOptions, type ThreadItem, type ThreadOptions } from "@openai/codex-sdk";
+import { getRuntimeConfig } from "../../config/runtime-config.js";
+import { cancelledResponse, type ProviderAdapter, type ProviderRunOptions } from "./types.js";
 
-function buildCodexOptions(): CodexOptions | undefined {
-  const options: CodexOptions = {};
-  if (process.env.CODEX_API_KEY) {
-    options.apiKey = process.env.CODEX_API_KEY;
+export function buildCodexOptions(
+  githubToken?: string,
+  settings = getRuntimeConfig().agents.codex
+): CodexOptions {
+  // The CLI inherits the server's whole environment unless given its own,
+  // so hand it only what it needs and keep the server's secrets out of reach
+  const env: Record<string, string> = {
+    PATH: process.env.PATH || "/usr/local/bin:/opt/homebrew/bin:/usr/bin:/bin",
+    HOME: process.env.HOME || "/tmp",
+    GH_TOKEN: githubToken ?? "",
+  };
+  const options: CodexOptions = { env };
+  if (settings.apiKey) {
+    options.apiKey = settings.apiKey;
+    env.CODEX_API_KEY = settings.apiKey;
   }
-  if (process.env.OPENAI_BASE_URL) {
-    options.baseUrl = process.env.OPENAI_BASE_URL;
+  if (settings.baseUrl) {
+    options.baseUrl = settings.baseUrl;
+    env.OPENAI_BASE_URL = settings.baseUrl;
   }
-  return Object.keys(options).length > 0 ? options : undefined;
+  return options;
 }
 
-function getThreadOptions(mode: ProviderRunOptions["mode"]): ThreadOptions {
+function getThreadOptions(mode: ProviderRunOptions["mode"], cwd?: string, model?: string): ThreadOptions {
   return {
-    workingDirectory: process.cwd(),
+    workingDirectory: cwd ?? process.cwd(),
     sandboxMode: mode === "write" ? "workspace-write" : "read-only",
+    ...(model ? { model } : {}),
   };
 }
 
@@ -23,6 +37,28 @@ function buildInput(systemPrompt: string, prompt: string): string {
   return `${systemPrompt}\n\n${prompt}`.trim();
 }
 
+/**
+ * Describe a thread item as a short, human-readable progress step
+ */
+function describeItem(item: ThreadItem): string | null {
+  switch (item.type) {
+    case "command_execution":
+      return `Running \`${item.command}\``;
+    case "file_change":
+      return `Editing ${item.changes.map((change) => `\`${change.path}\``).join(", ")}`;
+    case "mcp_tool_call":
+      return `Using ${item.server}/${item.tool}`;
+    case "web_search":
+      return `Searching the web for "${item.query}"`;
+    case "todo_list": {
+      const current = item.items.find((todo) => !todo.completed);
+      return current ? current.text : null;
+    }
+    default:
+      return null;
+  }
+}
+
 export const codexProvider: ProviderAdapter = {
   id: "codex",
   displayName: "Codex SDK",
@@ -32,21 +68,26 @@ export const codexProvider: ProviderAdapter = {
     supportsBash: false,
   },
   async runSession(options: ProviderRunOptions) {
-    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt } = options;
-    const codex = new Codex(buildCodexOptions());
-    const threadOptions = getThreadOptions(mode);
+    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt, signal, cwd, model, githubToken } = options;
+    const codex = new Codex(buildCodexOptions(githubToken));
+    const threadOptions = getThreadOptions(mode, cwd, model);
     const input = buildInput(systemPrompt, prompt);
     const sessionInfo = sessionStore.getSession(sessionKey);
 
     console.log(`[AGENT][CODEX] Session key: ${sessionKey}`);
-    console.log(`[AGENT][CODEX] Existing thread: ${sessionInfo ? sessionInfo.sessionId : "none"}`);
+    console.log(`[AGENT][CODEX] Existing thread: ${sessionInfo?.sessionId || "none"}`);
+
+    if (signal?.aborted) {
+      return cancelledResponse();
+    }
 
     try {
-      const thread = sessionInfo
+      const thread = sessionInfo?.sessionId
         ? codex.resumeThread(sessionInfo.sessionId, threadOptions)
         : codex.startThread(threadOptions);
 
-      const turn = await thread.run(input);
+      // The signal is forwarded to the codex subprocess, which is killed on abort
+      const turn = await thread.run(input, { signal });
       const threadId = thread.id;
 
       if (threadId) {
@@ -55,6 +96,7 @@ export const codexProvider: ProviderAdapter = {
           context,
           createdAt: Date.now(),
           provider: "codex",
+          cwd,
         });
       }
 
@@ -63,6 +105,9 @@ export const codexProvider: ProviderAdapter = {
         result: turn.finalResponse,
       };
     } catch (error) {
+      if (signal?.aborted) {
+        return cancelledResponse();
+      }
       console.error(`[AGENT][CODEX] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
       return {
         success: false,
@@ -72,36 +117,75 @@ export const codexProvider: ProviderAdapter = {
     }
   },
   async *runSessionStream(options: ProviderRunOptions) {
-    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt } = options;
-    const codex = new Codex(buildCodexOptions());
-    const threadOptions = getThreadOptions(mode);
+    const { context, prompt, mode, sessionKey, sessionStore, systemPrompt, signal, cwd, model, githubToken } = options;
+    const codex = new Codex(buildCodexOptions(githubToken));
+    const threadOptions = getThreadOptions(mode, cwd, model);
     const input = buildInput(systemPrompt, prompt);
     const sessionInfo = sessionStore.getSession(sessionKey);
 
-    const thread = sessionInfo
+    if (signal?.aborted) {
+      yield { type: "result", response: cancelledResponse() };
+      return;
+    }
+
+    const thread = sessionInfo?.sessionId
       ? codex.resumeThread(sessionInfo.sessionId, threadOptions)
       : codex.startThread(threadOptions);
 
-    const { events } = await thread.runStreamed(input);
+    let lastMessage = "";
 
-    for await (const event of events) {
-      if (event.type === "thread.started") {
-        sessionStore.saveSession(sessionKey, {
-          sessionId: event.thread_id,
-          context,
-          createdAt: Date.now(),
-          provider: "codex",
-        });
-      }
+    try {
+      const { events } = await thread.runStreamed(input, { signal });
+
+      for await (const event of events) {
+        if (event.type === "thread.started") {
+          sessionStore.saveSession(sessionKey, {
+            sessionId: event.thread_id,
+            context,
+            createdAt: Date.now(),
+            provider: "codex",
+            cwd,
+          });
+        }
 
-      if (event.type === "item.completed" && event.item.type === "agent_message") {
-        yield event.item.text;
+        if (event.type === "item.started" || event.type === "item.updated") {
+          const step = describeItem(event.item);
+          if (step) {
+            yield { type: "step", text: step };
+          }
+        }
+
+        if (event.type === "item.completed" && event.item.type === "agent_message") {
+          lastMessage = event.item.text;
+          yield { type: "text", text: event.item.text };
+        }
+
+        if (event.type === "turn.failed") {
+          yield { type: "result", response: { success: false, result: "", error: event.error.message } };
+          return;
+        }
+
+        if (event.type === "error") {
+          yield { type: "result", response: { success: false, result: "", error: event.message } };
+          return;
+        }
       }
 
-      if (event.type === "turn.failed") {
-        yield `[Error: ${event.error.message}]`;
+      yield { type: "result", response: { success: true, result: lastMessage } };
+    } catch (error) {
+      if (signal?.aborted) {
+        yield { type: "result", response: cancelledResponse() };
         return;
       }
+      console.error(`[AGENT][CODEX] ERROR: ${error instanceof Error ? error.message : "Unknown error"}`);
+      yield {
+        type: "result",
+        response: {
+          success: false,
+          result: "",
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      };
     }
   },
 };
@@ -1,3 +1,4 @@
+import { getRuntimeConfig, PROVIDER_ALIASES } from "../../config/runtime-config.js";
 import type { AgentProvider, ProviderOverride } from "../../utils/types.js";
 import type { ProviderAdapter } from "./types.js";
 import { claudeProvider } from "./claude.js";
@@ -8,16 +9,11 @@ const registry: Record<AgentProvider, ProviderAdapter> = {
   codex: codexProvider,
 };
 
-const providerAliases: Record<string, AgentProvider> = {
-  claude: "claude",
-  codex: "codex",
-  minimax: "claude",
-  anthropic: "claude",
-};
-
 export function resolveProviderId(override?: ProviderOverride): AgentProvider {
-  const raw = (override ?? process.env.AI_PROVIDER ?? "claude").toLowerCase().trim();
-  return providerAliases[raw] ?? "claude";
+  const raw = override?.toLowerCase().trim();
+  return raw && Object.hasOwn(PROVIDER_ALIASES, raw)
+    ? PROVIDER_ALIASES[raw as ProviderOverride]
+    : getRuntimeConfig().agents.defaultProvider;
 }
 
 export function getProvider(provider: AgentProvider): ProviderAdapter {
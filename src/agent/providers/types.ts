@@ -1,4 +1,10 @@
-import type { CommandMode, GitHubContext, AgentResponse, AgentProvider } from "../../utils/types.js";
+import type {
+  CommandMode,
+  GitHubContext,
+  AgentResponse,
+  AgentProvider,
+  AgentStreamEvent,
+} from "../../utils/types.js";
 import type { SessionStore } from "../session-store.js";
 
 export interface ProviderCapabilities {
@@ -14,6 +20,14 @@ export interface ProviderRunOptions {
   sessionKey: string;
   sessionStore: SessionStore;
   systemPrompt: string;
+  /** Aborts the run and kills any agent subprocess */
+  signal?: AbortSignal;
+  /** Directory the agent works in (a job workspace); defaults to the server's cwd */
+  cwd?: string;
+  /** Model to use instead of the provider's default */
+  model?: string;
+  /** Installation token exported to the agent as GH_TOKEN, for gh and git */
+  githubToken?: string;
 }
 
 export interface ProviderAdapter {
@@ -21,5 +35,12 @@ export interface ProviderAdapter {
   displayName: string;
   capabilities: ProviderCapabilities;
   runSession(options: ProviderRunOptions): Promise<AgentResponse>;
-  runSessionStream?(options: ProviderRunOptions): AsyncGenerator<string, void, unknown>;
+  runSessionStream?(options: ProviderRunOptions): AsyncGenerator<AgentStreamEvent, void, unknown>;
+}
+
+/**
+ * Response returned when a run is aborted before producing a result
+ */
+export function cancelledResponse(): AgentResponse {
+  return { success: false, result: "", error: "Cancelled", cancelled: true };
 }
@@ -13,13 +13,28 @@ import {
   writeFileSync,
 } from "fs";
 import { join } from "path";
-import type { GitHubContext, AgentProvider } from "../utils/types.js";
+import type { GitHubContext, AgentProvider, ReviewFinding } from "../utils/types.js";
+
+/**
+ * The last review submitted in a session, for incremental re-reviews
+ */
+export interface ReviewRecord {
+  /** PR head commit the review was made on */
+  headSha: string;
+  /** Findings still open after that review */
+  findings: ReviewFinding[];
+  reviewedAt: number;
+}
 
 export interface SessionInfo {
+  /** Empty while no conversation has been started (the entry only holds a review) */
   sessionId: string;
   context: GitHubContext;
   createdAt: number;
   provider?: AgentProvider;
+  /** Working directory the session ran in (Claude sessions can only resume there) */
+  cwd?: string;
+  lastReview?: ReviewRecord;
 }
 
 interface SessionStoreOptions {
@@ -68,9 +83,28 @@ export class SessionStore {
     return Buffer.from(base64, "base64").toString("utf-8");
   }
 
+  /**
+   * Store a session; the review record carries over when the same session
+   * is saved again (providers re-save on every resumed run) or when the
+   * first conversation starts after a review was recorded
+   */
   saveSession(key: string, session: SessionInfo): void {
-    this.sessions.set(key, session);
-    this.persistSession(key, session);
+    const previous = this.sessions.get(key);
+    const carriesOver = previous && (!previous.sessionId || previous.sessionId === session.sessionId);
+    const lastReview = session.lastReview ?? (carriesOver ? previous.lastReview : undefined);
+    const next = lastReview ? { ...session, lastReview } : session;
+    this.sessions.set(key, next);
+    this.persistSession(key, next);
+  }
+
+  /**
+   * Record the latest review for a context
+   * Without a session yet, an entry without a conversation to resume
+   * (empty session ID) is created to hold it.
+   */
+  recordReview(key: string, context: GitHubContext, review: ReviewRecord): void {
+    const session = this.sessions.get(key) ?? { sessionId: "", context, createdAt: Date.now() };
+    this.saveSession(key, { ...session, lastReview: review });
   }
 
   getSession(key: string): SessionInfo | undefined {
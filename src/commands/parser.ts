@@ -40,6 +40,27 @@ const WRITE_COMMANDS = [
   "remove",
 ];
 
+/**
+ * Other spellings of a command, mapped to the command they stand for
+ */
+const COMMAND_ALIASES: Record<string, string> = {
+  summary: "summarize",
+  summarise: "summarize",
+  tldr: "summarize",
+  analyse: "analyze",
+  analysis: "analyze",
+  explanation: "explain",
+  implementation: "implement",
+};
+
+/**
+ * The command an action word stands for, with aliases resolved
+ */
+export function getCanonicalAction(action: string): string {
+  const lowerAction = action.toLowerCase();
+  return COMMAND_ALIASES[lowerAction] ?? lowerAction;
+}
+
 /**
  * Parse a @codeduck command from a comment body
  *
@@ -57,7 +78,9 @@ export function parseCommand(commentBody: string): ParsedCommand | null {
     return null;
   }
 
-  const { cleaned, provider } = extractProviderFlag(command);
+  const { cleaned: withoutProvider, provider } = extractProviderFlag(command);
+  const { cleaned: withoutDryRun, present: dryRun } = extractFlag(withoutProvider, "dry-run");
+  const { cleaned, present: full } = extractFlag(withoutDryRun, "full");
 
   // Extract action and target
   const words = cleaned.toLowerCase().split(/\s+/);
@@ -73,6 +96,8 @@ export function parseCommand(commentBody: string): ParsedCommand | null {
     target,
     original: command,
     provider,
+    dryRun,
+    full,
   };
 }
 
@@ -127,6 +152,20 @@ function extractProviderFlag(command: string): { cleaned: string; provider?: Pro
   return { cleaned, provider };
 }
 
+function extractFlag(command: string, flag: string): { cleaned: string; present: boolean } {
+  const match = command.match(new RegExp(`(?:^|\\s)--${flag}(?=\\s|$)`, "i"));
+  if (!match) {
+    return { cleaned: command, present: false };
+  }
+
+  const cleaned = command
+    .replace(match[0], " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+
+  return { cleaned, present: true };
+}
+
 /**
  * Check if command text indicates a stop/cancel request
  */
@@ -134,6 +173,13 @@ export function isStopCommand(commandText: string): boolean {
   return /\b(stop|cancel|abort|halt)\b/i.test(commandText);
 }
 
+/**
+ * Check if command text asks for the effective configuration
+ */
+export function isConfigCommand(commandText: string): boolean {
+  return /^config(?:uration)?\s*$/i.test(commandText.trim());
+}
+
 /**
  * Get a human-readable description of the mode
  */
@@ -0,0 +1,654 @@
+/**
+ * CodeDuck - Repository configuration
+ *
+ * Loads `.codeduck.yml` from a repository's default branch on top of the
+ * organization's `codeduck.yml` in its `.github` repository, validates them
+ * and caches each file per commit, so a push to a default branch takes effect
+ * on the next event. Sections neither file sets fall back to the server-wide
+ * environment settings and the defaults.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import {
+  getBranchHeadSha,
+  getDefaultBranch,
+  getFile,
+  isTeamMember,
+  PERMISSION_LEVELS,
+  type PermissionLevel,
+} from "../github/client.js";
+import { getRepoCheckConfig, type RepoCheckConfig } from "../pipeline/checks.js";
+import {
+  AUTO_REVIEW_TRIGGERS,
+  getAutoReviewConfig,
+  type AutoReviewConfig,
+  type AutoReviewTrigger,
+} from "../review/auto-review.js";
+import { getIssueTriageConfig, type IssueTriageConfig } from "../triage/issue-triage.js";
+import { getCanonicalAction } from "../commands/parser.js";
+import { GITHUB_COMMENT_LIMIT } from "../utils/markdown.js";
+import type { ProviderOverride } from "../utils/types.js";
+
+export const REPO_CONFIG_PATH = ".codeduck.yml";
+
+/**
+ * Organization-wide defaults live in the owner's `.github` repository
+ */
+const ORG_CONFIG_REPO = ".github";
+const ORG_CONFIG_PATH = "codeduck.yml";
+
+/**
+ * Defaults for the limits section
+ */
+const DEFAULT_MAX_COMMENT_LENGTH = 10 * 1024;
+const DEFAULT_MAX_RESPONSE_LENGTH = 60_000;
+const MIN_RESPONSE_LENGTH = 1000;
+
+/**
+ * Parsed files kept in memory (one per repository and commit)
+ */
+const MAX_CACHED_CONFIGS = 500;
+
+/**
+ * How long a default branch's head commit is trusted before it is looked up
+ * again (push events to the default branch clear it right away)
+ */
+const BRANCH_HEAD_TTL_MS = 60 * 1000;
+
+const PROVIDERS: ProviderOverride[] = ["claude", "codex", "minimax", "anthropic"];
+
+export type CommandPermission = Exclude<PermissionLevel, "none">;
+
+const COMMAND_PERMISSIONS = PERMISSION_LEVELS.filter((level): level is CommandPermission => level !== "none");
+
+export interface RepoConfig {
+  commands: {
+    /** Only these commands may be used (aliases count as the command they stand for) */
+    enabled?: string[];
+    disabled: string[];
+  };
+  agent: {
+    provider?: ProviderOverride;
+    model?: string;
+  };
+  greetings: {
+    issues: boolean;
+    pullRequests: boolean;
+  };
+  access: {
+    /** Lowest repository permission that may run read-mode commands */
+    read: CommandPermission;
+    /** Lowest repository permission that may run write-mode commands */
+    write: CommandPermission;
+    /** Narrow who may use CodeDuck among those with enough permission */
+    users?: string[];
+    /** Team slugs in the repository owner's organization */
+    teams?: string[];
+  };
+  autoReview?: AutoReviewConfig;
+  triage?: IssueTriageConfig;
+  checks?: RepoCheckConfig;
+  limits: {
+    /** Longest command comment that is processed */
+    maxCommentLength: number;
+    /** Longest single answer comment before it is split into parts */
+    maxResponseLength: number;
+  };
+}
+
+export interface ConfigSource {
+  /** "owner/repo" the file was read from */
+  repository: string;
+  path: string;
+  /** Commit of the default branch the file was read at */
+  sha: string;
+}
+
+export interface LoadedRepoConfig {
+  config: RepoConfig;
+  /** Problems found in the files; when there are any, the defaults are used */
+  errors: string[];
+  /** Files the config was merged from, lowest precedence first */
+  sources: ConfigSource[];
+}
+
+export function getDefaultRepoConfig(): RepoConfig {
+  return {
+    commands: { disabled: [] },
+    agent: {},
+    greetings: { issues: true, pullRequests: true },
+    access: { read: "triage", write: "write" },
+    limits: {
+      maxCommentLength: DEFAULT_MAX_COMMENT_LENGTH,
+      maxResponseLength: DEFAULT_MAX_RESPONSE_LENGTH,
+    },
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collects validation errors while reading typed values out of the parsed file
+ */
+class ConfigReader {
+  readonly errors: string[] = [];
+
+  section(value: unknown, path: string, keys: string[]): Record<string, unknown> | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    if (!isRecord(value)) {
+      this.errors.push(`\`${path}\` must be a mapping`);
+      return undefined;
+    }
+    for (const key of Object.keys(value)) {
+      if (!keys.includes(key)) {
+        this.errors.push(`unknown key \`${path ? `${path}.` : ""}${key}\``);
+      }
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string): boolean | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== "boolean") {
+      this.errors.push(`\`${path}\` must be true or false`);
+      return undefined;
+    }
+    return value;
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== "string" || value.trim() === "") {
+      this.errors.push(`\`${path}\` must be a non-empty string`);
+      return undefined;
+    }
+    return value.trim();
+  }
+
+  integer(value: unknown, path: string, min: number, max = Number.MAX_SAFE_INTEGER): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      this.errors.push(
+        max === Number.MAX_SAFE_INTEGER
+          ? `\`${path}\` must be a whole number of at least ${min}`
+          : `\`${path}\` must be a whole number from ${min} to ${max}`
+      );
+      return undefined;
+    }
+    return value;
+  }
+
+  stringList(value: unknown, path: string): string[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || item.trim() === "")) {
+      this.errors.push(`\`${path}\` must be a list of strings`);
+      return undefined;
+    }
+    return value.map((item: string) => item.trim());
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, allowed: readonly T[]): T | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (typeof value !== "string" || !allowed.includes(value as T)) {
+      this.errors.push(`\`${path}\` must be one of: ${allowed.join(", ")}`);
+      return undefined;
+    }
+    return value as T;
+  }
+}
+
+/**
+ * Drop undefined values so "not set" stays distinguishable from defaults
+ */
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, item]) => item !== undefined)) as T;
+}
+
+function readAutoReview(reader: ConfigReader, value: unknown): AutoReviewConfig | undefined {
+  const section = reader.section(value, "autoReview", [
+    "events",
+    "includeDrafts",
+    "authors",
+    "ignoreAuthors",
+    "baseBranches",
+    "paths",
+    "ignorePaths",
+    "maxDiffLines",
+  ]);
+  if (!section) {
+    return undefined;
+  }
+
+  const events = reader.stringList(section.events, "autoReview.events");
+  const unknownEvents = events?.filter((event) => !AUTO_REVIEW_TRIGGERS.includes(event as AutoReviewTrigger)) ?? [];
+  if (unknownEvents.length > 0) {
+    reader.errors.push(`\`autoReview.events\` may only contain: ${AUTO_REVIEW_TRIGGERS.join(", ")}`);
+  }
+
+  return compact({
+    events: events as AutoReviewTrigger[] | undefined,
+    includeDrafts: reader.boolean(section.includeDrafts, "autoReview.includeDrafts"),
+    authors: reader.stringList(section.authors, "autoReview.authors"),
+    ignoreAuthors: reader.stringList(section.ignoreAuthors, "autoReview.ignoreAuthors"),
+    baseBranches: reader.stringList(section.baseBranches, "autoReview.baseBranches"),
+    paths: reader.stringList(section.paths, "autoReview.paths"),
+    ignorePaths: reader.stringList(section.ignorePaths, "autoReview.ignorePaths"),
+    maxDiffLines: reader.integer(section.maxDiffLines, "autoReview.maxDiffLines", 1),
+  });
+}
+
+function readTriage(reader: ConfigReader, value: unknown): IssueTriageConfig | undefined {
+  const section = reader.section(value, "triage", ["classify", "labels", "askForDetails", "duplicates", "greetingFallback"]);
+  if (!section) {
+    return undefined;
+  }
+  return compact({
+    classify: reader.boolean(section.classify, "triage.classify"),
+    labels: reader.oneOf(section.labels, "triage.labels", ["off", "suggest", "apply"] as const),
+    askForDetails: reader.boolean(section.askForDetails, "triage.askForDetails"),
+    duplicates: reader.boolean(section.duplicates, "triage.duplicates"),
+    greetingFallback: reader.boolean(section.greetingFallback, "triage.greetingFallback"),
+  });
+}
+
+function readChecks(reader: ConfigReader, value: unknown): RepoCheckConfig | undefined {
+  const section = reader.section(value, "checks", ["command", "repairAttempts"]);
+  if (!section) {
+    return undefined;
+  }
+  return compact({
+    command: reader.string(section.command, "checks.command"),
+    repairAttempts: reader.integer(section.repairAttempts, "checks.repairAttempts", 0, 10),
+  });
+}
+
+/**
+ * Validate one section on its own, e.g. a repository's entry in the
+ * server-wide REPO_CHECKS, AUTO_REVIEW or ISSUE_TRIAGE settings
+ */
+function validateSection<T>(
+  read: (reader: ConfigReader, value: unknown) => T | undefined,
+  value: unknown
+): { config?: T; errors: string[] } {
+  const reader = new ConfigReader();
+  const config = read(reader, value);
+  return { config, errors: reader.errors };
+}
+
+export function validateChecksConfig(value: unknown): { config?: RepoCheckConfig; errors: string[] } {
+  return validateSection(readChecks, value);
+}
+
+export function validateAutoReviewConfig(value: unknown): { config?: AutoReviewConfig; errors: string[] } {
+  return validateSection(readAutoReview, value);
+}
+
+export function validateTriageConfig(value: unknown): { config?: IssueTriageConfig; errors: string[] } {
+  return validateSection(readTriage, value);
+}
+
+/**
+ * Validate a parsed `.codeduck.yml`, filling in defaults
+ * Returns the config together with every problem found.
+ */
+export function validateRepoConfig(raw: unknown): { config: RepoConfig; errors: string[] } {
+  const config = getDefaultRepoConfig();
+  const reader = new ConfigReader();
+  if (raw === null || raw === undefined) {
+    return { config, errors: [] };
+  }
+
+  const root = reader.section(raw, "", [
+    "commands",
+    "agent",
+    "greetings",
+    "access",
+    "autoReview",
+    "triage",
+    "checks",
+    "limits",
+  ]);
+  if (!root) {
+    return { config, errors: ["the file must contain a mapping of settings"] };
+  }
+
+  const commands = reader.section(root.commands, "commands", ["enabled", "disabled"]);
+  if (commands) {
+    const enabled = reader.stringList(commands.enabled, "commands.enabled");
+    const disabled = reader.stringList(commands.disabled, "commands.disabled");
+    config.commands = compact({
+      enabled: enabled?.map((command) => command.toLowerCase()),
+      disabled: disabled?.map((command) => command.toLowerCase()) ?? [],
+    });
+  }
+
+  const agent = reader.section(root.agent, "agent", ["provider", "model"]);
+  if (agent) {
+    config.agent = compact({
+      provider: reader.oneOf(agent.provider, "agent.provider", PROVIDERS),
+      model: reader.string(agent.model, "agent.model"),
+    });
+  }
+
+  const greetings = reader.section(root.greetings, "greetings", ["issues", "pullRequests"]);
+  if (greetings) {
+    config.greetings = {
+      issues: reader.boolean(greetings.issues, "greetings.issues") ?? true,
+      pullRequests: reader.boolean(greetings.pullRequests, "greetings.pullRequests") ?? true,
+    };
+  }
+
+  const access = reader.section(root.access, "access", ["read", "write", "users", "teams"]);
+  if (access) {
+    config.access = compact({
+      read: reader.oneOf(access.read, "access.read", COMMAND_PERMISSIONS) ?? config.access.read,
+      write: reader.oneOf(access.write, "access.write", COMMAND_PERMISSIONS) ?? config.access.write,
+      users: reader.stringList(access.users, "access.users"),
+      teams: reader.stringList(access.teams, "access.teams"),
+    });
+  }
+
+  const autoReview = readAutoReview(reader, root.autoReview);
+  if (autoReview) {
+    config.autoReview = autoReview;
+  }
+  const triage = readTriage(reader, root.triage);
+  if (triage) {
+    config.triage = triage;
+  }
+  const checks = readChecks(reader, root.checks);
+  if (checks) {
+    config.checks = checks;
+  }
+
+  const limits = reader.section(root.limits, "limits", ["maxCommentLength", "maxResponseLength"]);
+  if (limits) {
+    config.limits = {
+      maxCommentLength:
+        reader.integer(limits.maxCommentLength, "limits.maxCommentLength", 1, GITHUB_COMMENT_LIMIT) ??
+        DEFAULT_MAX_COMMENT_LENGTH,
+      maxResponseLength:
+        reader.integer(limits.maxResponseLength, "limits.maxResponseLength", MIN_RESPONSE_LENGTH, DEFAULT_MAX_RESPONSE_LENGTH) ??
+        DEFAULT_MAX_RESPONSE_LENGTH,
+    };
+  }
+
+  return reader.errors.length > 0
+    ? { config: getDefaultRepoConfig(), errors: reader.errors }
+    : { config, errors: [] };
+}
+
+/**
+ * Parse the text of a config file without validating it
+ */
+function parseConfigText(text: string): { raw: unknown; errors: string[] } {
+  try {
+    return { raw: parseYaml(text), errors: [] };
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split("\n")[0] : "unknown error";
+    return { raw: undefined, errors: [`invalid YAML: ${message}`] };
+  }
+}
+
+/**
+ * Parse and validate the text of a `.codeduck.yml`
+ */
+export function parseRepoConfig(text: string): { config: RepoConfig; errors: string[] } {
+  const { raw, errors } = parseConfigText(text);
+  return errors.length > 0 ? { config: getDefaultRepoConfig(), errors } : validateRepoConfig(raw);
+}
+
+/**
+ * Deep-merge two parsed config files: mappings merge key by key, while
+ * lists and single values from the override replace the base
+ */
+export function mergeConfigFiles(base: unknown, override: unknown): unknown {
+  if (override === undefined || override === null) {
+    return base;
+  }
+  if (!isRecord(base) || !isRecord(override)) {
+    return override;
+  }
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = mergeConfigFiles(base[key], value);
+  }
+  return merged;
+}
+
+/**
+ * Server-wide per-repository settings fill the sections no file sets
+ */
+function applyServerDefaults(config: RepoConfig, owner: string, repo: string): RepoConfig {
+  const checks = getRepoCheckConfig(owner, repo);
+  return compact({
+    ...config,
+    autoReview: config.autoReview ?? getAutoReviewConfig(owner, repo) ?? undefined,
+    triage: config.triage ?? getIssueTriageConfig(owner, repo) ?? undefined,
+    checks: config.checks ?? (Object.keys(checks).length > 0 ? checks : undefined),
+  });
+}
+
+interface ConfigFile {
+  source: ConfigSource;
+  raw: unknown;
+  /** Problems with this file on its own */
+  errors: string[];
+}
+
+const cache = new Map<string, ConfigFile | null>();
+
+function cacheFile(key: string, file: ConfigFile | null): void {
+  // Oldest entries go first
+  if (cache.size >= MAX_CACHED_CONFIGS) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) {
+      cache.delete(oldest);
+    }
+  }
+  cache.set(key, file);
+}
+
+const branchHeads = new Map<string, { sha: string; expiresAt: number }>();
+
+function repoKey(owner: string, repo: string): string {
+  return `${owner}/${repo}`.toLowerCase();
+}
+
+/**
+ * Head commit of a repository's default branch, cached briefly so that every
+ * event does not cost two API calls per config file
+ */
+async function getDefaultBranchHead(octokit: Octokit, owner: string, repo: string): Promise<string> {
+  const key = repoKey(owner, repo);
+  const cached = branchHeads.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.sha;
+  }
+
+  const branch = await getDefaultBranch(octokit, owner, repo);
+  const sha = await getBranchHeadSha(octokit, owner, repo, branch);
+  branchHeads.delete(key);
+  // Oldest entries go first
+  if (branchHeads.size >= MAX_CACHED_CONFIGS) {
+    const oldest = branchHeads.keys().next().value;
+    if (oldest !== undefined) {
+      branchHeads.delete(oldest);
+    }
+  }
+  branchHeads.set(key, { sha, expiresAt: Date.now() + BRANCH_HEAD_TTL_MS });
+  return sha;
+}
+
+/**
+ * Forget a repository's cached default branch head, e.g. after a push to it,
+ * so its config file is read again at the new commit
+ */
+export function invalidateRepoConfig(owner: string, repo: string): void {
+  branchHeads.delete(repoKey(owner, repo));
+}
+
+/**
+ * Read one config file from the head of a repository's default branch
+ * Files are cached per commit, so they are only fetched again after a push.
+ */
+async function readConfigFile(octokit: Octokit, owner: string, repo: string, path: string): Promise<ConfigFile | null> {
+  const sha = await getDefaultBranchHead(octokit, owner, repo);
+  const key = `${owner}/${repo}@${sha}:${path}`.toLowerCase();
+  if (cache.has(key)) {
+    return cache.get(key) ?? null;
+  }
+
+  const text = await getFile(octokit, owner, repo, path, sha);
+  let file: ConfigFile | null = null;
+  if (text !== null) {
+    const parsed = parseConfigText(text);
+    const errors = parsed.errors.length > 0 ? parsed.errors : validateRepoConfig(parsed.raw).errors;
+    file = { source: { repository: `${owner}/${repo}`, path, sha }, raw: parsed.raw, errors };
+    if (errors.length > 0) {
+      console.warn(`[CONFIG] ${formatSource(file.source)} is invalid: ${errors.join("; ")}`);
+    }
+  }
+  cacheFile(key, file);
+  return file;
+}
+
+/**
+ * Read the organization's defaults; a missing or inaccessible `.github`
+ * repository just means there are none
+ */
+async function readOrgConfigFile(octokit: Octokit, owner: string): Promise<ConfigFile | null> {
+  try {
+    return await readConfigFile(octokit, owner, ORG_CONFIG_REPO, ORG_CONFIG_PATH);
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 404 || status === 403) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function formatSource(source: ConfigSource): string {
+  return `${source.repository}/${source.path}`;
+}
+
+/**
+ * Load the effective config for a repository: the organization's
+ * `codeduck.yml` in its `.github` repository, with the repository's own
+ * `.codeduck.yml` deep-merged on top
+ */
+export async function loadRepoConfig(octokit: Octokit, owner: string, repo: string): Promise<LoadedRepoConfig> {
+  const [orgFile, repoFile] = await Promise.all([
+    repo.toLowerCase() === ORG_CONFIG_REPO ? null : readOrgConfigFile(octokit, owner),
+    readConfigFile(octokit, owner, repo, REPO_CONFIG_PATH),
+  ]);
+  const files = [orgFile, repoFile].filter((file): file is ConfigFile => file !== null);
+  const sources = files.map((file) => file.source);
+
+  const errors = files.flatMap((file) => file.errors.map((error) => `\`${formatSource(file.source)}\`: ${error}`));
+  if (errors.length > 0) {
+    return { config: applyServerDefaults(getDefaultRepoConfig(), owner, repo), errors, sources };
+  }
+
+  const merged = files.reduce<unknown>((result, file) => mergeConfigFiles(result, file.raw), undefined);
+  const validated = validateRepoConfig(merged);
+  return {
+    config: applyServerDefaults(validated.config, owner, repo),
+    errors: validated.errors,
+    sources,
+  };
+}
+
+/**
+ * Comment explaining why the config files could not be used
+ */
+export function formatConfigErrors(loaded: LoadedRepoConfig): string {
+  const commits = loaded.sources.map((source) => `\`${formatSource(source)}\` at \`${source.sha.slice(0, 7)}\``);
+  return [
+    `CodeDuck could not use its configuration (${commits.join(", ")}):`,
+    "",
+    ...loaded.errors.map((error) => `- ${error}`),
+    "",
+    "Commands are paused for this repository until the file is fixed on its default branch.",
+  ].join("\n");
+}
+
+/**
+ * Comment showing the effective config and where it came from, lowest
+ * precedence first
+ */
+export function formatEffectiveConfig(loaded: LoadedRepoConfig, fullName: string): string {
+  const sources = [
+    "Built-in defaults",
+    "Server settings (`AUTO_REVIEW`, `ISSUE_TRIAGE`, `REPO_CHECKS`)",
+    ...loaded.sources.map((source) => `\`${formatSource(source)}\` at \`${source.sha.slice(0, 7)}\``),
+  ];
+  return [
+    `**Effective CodeDuck configuration for \`${fullName}\`**`,
+    "",
+    "Sources, later ones taking precedence:",
+    ...sources.map((source, index) => `${index + 1}. ${source}`),
+    "",
+    "```yaml",
+    stringifyYaml(loaded.config).trimEnd(),
+    "```",
+  ].join("\n");
+}
+
+/**
+ * Whether a command (the parsed action word) is enabled; help always is
+ * Aliases are resolved on both sides, so disabling `summarize` also
+ * disables `summary`.
+ */
+export function isCommandEnabled(config: RepoConfig, action: string): boolean {
+  const canonical = getCanonicalAction(action);
+  if (canonical === "help") {
+    return true;
+  }
+  const matches = (commands: string[]) => commands.some((command) => getCanonicalAction(command) === canonical);
+  if (config.commands.enabled && !matches(config.commands.enabled)) {
+    return false;
+  }
+  return !matches(config.commands.disabled);
+}
+
+/**
+ * Whether the access section's allow-lists let a user use CodeDuck
+ * Without users or teams configured, everyone with enough permission may.
+ */
+export async function isAllowedByAccessConfig(
+  octokit: Octokit,
+  owner: string,
+  config: RepoConfig,
+  username: string
+): Promise<boolean> {
+  const { users, teams } = config.access;
+  if (!users && !teams) {
+    return true;
+  }
+  if (users?.some((user) => user.toLowerCase() === username.toLowerCase())) {
+    return true;
+  }
+  for (const team of teams ?? []) {
+    if (await isTeamMember(octokit, owner, team, username)) {
+      return true;
+    }
+  }
+  return false;
+}
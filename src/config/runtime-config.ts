@@ -0,0 +1,374 @@
+/**
+ * CodeDuck - Runtime configuration
+ *
+ * Reads every environment variable the server uses in one place: each value
+ * is coerced to its type with a default, then checked together with related
+ * values, so a misconfigured server refuses to start with a list of problems
+ * instead of failing on its first webhook.
+ */
+
+import type { RepoCheckConfig } from "../pipeline/checks.js";
+import { validateAutoReviewConfig, validateChecksConfig, validateTriageConfig } from "./repo-config.js";
+import type { AutoReviewConfig } from "../review/auto-review.js";
+import type { IssueTriageConfig } from "../triage/issue-triage.js";
+import type { AgentProvider, ProviderOverride } from "../utils/types.js";
+
+/**
+ * Names accepted for each agent provider (AI_PROVIDER and --provider)
+ */
+export const PROVIDER_ALIASES: Record<ProviderOverride, AgentProvider> = {
+  claude: "claude",
+  codex: "codex",
+  minimax: "claude",
+  anthropic: "claude",
+};
+
+export interface GitHubAppSettings {
+  appId: string;
+  /** PEM key with escaped newlines already expanded */
+  privateKey: string;
+  webhookSecret: string;
+}
+
+export interface WebhookSettings {
+  secret?: string;
+  /** Accept unsigned webhooks when no secret is set (development only) */
+  allowUnsigned: boolean;
+}
+
+export interface RuntimeConfig {
+  environment: string;
+  server: {
+    port: number;
+    adminApiToken?: string;
+  };
+  /** Null when no GitHub App is configured (development only) */
+  githubApp: GitHubAppSettings | null;
+  webhook: WebhookSettings;
+  agents: {
+    defaultProvider: AgentProvider;
+    sessionDir: string;
+    claude: { apiKey?: string; baseUrl: string };
+    codex: { apiKey?: string; baseUrl?: string };
+  };
+  jobs: {
+    dir: string;
+    maxConcurrent: number;
+  };
+  workspaces: {
+    dir: string;
+    maxWorkspaceMb: number;
+    maxCacheMb: number;
+  };
+  checks: {
+    repairAttempts: number;
+    /** REPO_CHECKS, keyed by "owner/repo" */
+    repos: Record<string, RepoCheckConfig>;
+  };
+  review: {
+    checkRuns: boolean;
+    /** AUTO_REVIEW, keyed by "owner/repo" */
+    autoReview: Record<string, AutoReviewConfig>;
+  };
+  /** ISSUE_TRIAGE, keyed by "owner/repo" */
+  issueTriage: Record<string, IssueTriageConfig>;
+}
+
+export interface RuntimeConfigResult {
+  config: RuntimeConfig;
+  /** Problems that keep the server from starting */
+  errors: string[];
+  /** Problems worth mentioning that the server can run with */
+  warnings: string[];
+}
+
+export interface ProviderStatus {
+  id: AgentProvider;
+  usable: boolean;
+  /** What the provider runs against, or why it cannot run */
+  detail: string;
+}
+
+const DEFAULT_CLAUDE_BASE_URL = "https://api.minimax.io/anthropic";
+
+/**
+ * Coerces raw environment strings, collecting a message for every value
+ * that is set but unusable (and falling back to the default for it)
+ */
+class EnvReader {
+  readonly errors: string[] = [];
+
+  constructor(private readonly env: NodeJS.ProcessEnv) {}
+
+  /** Set and non-blank, trimmed; blank values count as unset */
+  raw(name: string): string | undefined {
+    const value = this.env[name]?.trim();
+    return value ? value : undefined;
+  }
+
+  string(name: string, fallback: string): string {
+    return this.raw(name) ?? fallback;
+  }
+
+  integer(name: string, fallback: number, min: number, max = Number.MAX_SAFE_INTEGER): number {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return fallback;
+    }
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+      this.errors.push(
+        max === Number.MAX_SAFE_INTEGER
+          ? `${name} must be a whole number of at least ${min} (got "${value}")`
+          : `${name} must be a whole number from ${min} to ${max} (got "${value}")`
+      );
+      return fallback;
+    }
+    return parsed;
+  }
+
+  boolean(name: string, fallback: boolean): boolean {
+    const value = this.raw(name)?.toLowerCase();
+    if (value === undefined) {
+      return fallback;
+    }
+    if (["1", "true", "yes", "on"].includes(value)) {
+      return true;
+    }
+    if (["0", "false", "no", "off"].includes(value)) {
+      return false;
+    }
+    this.errors.push(`${name} must be true or false (got "${value}")`);
+    return fallback;
+  }
+
+  url(name: string): string | undefined {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return undefined;
+    }
+    try {
+      const url = new URL(value);
+      if (url.protocol === "http:" || url.protocol === "https:") {
+        return value;
+      }
+    } catch {
+      // reported below
+    }
+    this.errors.push(`${name} must be an http(s) URL (got "${value}")`);
+    return undefined;
+  }
+
+  /** JSON object keyed by "owner/repo", each entry checked like its `.codeduck.yml` section */
+  repoMap<T>(name: string, validate: (value: unknown) => { config?: T; errors: string[] }): Record<string, T> {
+    const value = this.raw(name);
+    if (value === undefined) {
+      return {};
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      this.errors.push(`${name} is not valid JSON`);
+      return {};
+    }
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      this.errors.push(`${name} must be a JSON object keyed by "owner/repo"`);
+      return {};
+    }
+    const invalidKeys = Object.keys(parsed).filter((key) => !/^[^/\s]+\/[^/\s]+$/.test(key));
+    if (invalidKeys.length > 0) {
+      this.errors.push(`${name} has keys that are not "owner/repo": ${invalidKeys.join(", ")}`);
+    }
+
+    const entries: Record<string, T> = {};
+    for (const [repo, value] of Object.entries(parsed)) {
+      const { config, errors } = validate(value);
+      this.errors.push(...errors.map((error) => `${name} for ${repo}: ${error}`));
+      if (config !== undefined && errors.length === 0) {
+        entries[repo] = config;
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Read the GitHub App settings, which are all-or-nothing
+ */
+function readGitHubApp(reader: EnvReader, webhookSecret: string | undefined): GitHubAppSettings | null {
+  const appId = reader.raw("GITHUB_APP_ID");
+  const privateKey = reader.raw("GITHUB_APP_PRIVATE_KEY")?.replace(/\\n/g, "\n");
+  if (!appId && !privateKey && !webhookSecret) {
+    return null;
+  }
+
+  const missing = [
+    ...(appId ? [] : ["GITHUB_APP_ID"]),
+    ...(privateKey ? [] : ["GITHUB_APP_PRIVATE_KEY"]),
+    ...(webhookSecret ? [] : ["GITHUB_APP_WEBHOOK_SECRET"]),
+  ];
+  if (missing.length > 0) {
+    reader.errors.push(`Partial GitHub App config, missing: ${missing.join(", ")}. Set all three to enable the app.`);
+    return null;
+  }
+  if (!privateKey?.includes("PRIVATE KEY-----")) {
+    reader.errors.push("GITHUB_APP_PRIVATE_KEY does not look like a PEM private key");
+    return null;
+  }
+  return { appId: appId as string, privateKey, webhookSecret: webhookSecret as string };
+}
+
+/**
+ * Build the runtime configuration from environment variables
+ */
+export function loadRuntimeConfig(env: NodeJS.ProcessEnv = process.env): RuntimeConfigResult {
+  const reader = new EnvReader(env);
+  const warnings: string[] = [];
+
+  const environment = reader.string("NODE_ENV", "production");
+  const isDevelopment = environment === "development";
+
+  // GITHUB_WEBHOOK_SECRET is the older name
+  const webhookSecret = reader.raw("GITHUB_APP_WEBHOOK_SECRET") ?? reader.raw("GITHUB_WEBHOOK_SECRET");
+  const errorsBeforeApp = reader.errors.length;
+  const githubApp = readGitHubApp(reader, webhookSecret);
+  const appInvalid = reader.errors.length > errorsBeforeApp;
+
+  const providerName = reader.string("AI_PROVIDER", "claude").toLowerCase();
+  const defaultProvider = Object.hasOwn(PROVIDER_ALIASES, providerName)
+    ? PROVIDER_ALIASES[providerName as ProviderOverride]
+    : undefined;
+  if (!defaultProvider) {
+    reader.errors.push(`AI_PROVIDER must be one of: ${Object.keys(PROVIDER_ALIASES).join(", ")} (got "${providerName}")`);
+  }
+
+  const config: RuntimeConfig = {
+    environment,
+    server: {
+      port: reader.integer("PORT", 3000, 1, 65535),
+      adminApiToken: reader.raw("ADMIN_API_TOKEN"),
+    },
+    githubApp,
+    webhook: { secret: webhookSecret, allowUnsigned: isDevelopment },
+    agents: {
+      defaultProvider: defaultProvider ?? "claude",
+      sessionDir: reader.string("SESSION_DIR", "/tmp/codeduck-sessions"),
+      claude: {
+        apiKey: reader.raw("MINIMAX_API_KEY"),
+        baseUrl: reader.url("ANTHROPIC_BASE_URL") ?? DEFAULT_CLAUDE_BASE_URL,
+      },
+      codex: {
+        apiKey: reader.raw("CODEX_API_KEY"),
+        baseUrl: reader.url("OPENAI_BASE_URL"),
+      },
+    },
+    jobs: {
+      dir: reader.string("JOB_DIR", "/tmp/codeduck-jobs"),
+      maxConcurrent: reader.integer("MAX_CONCURRENT_JOBS", 2, 1),
+    },
+    workspaces: {
+      dir: reader.string("WORKSPACE_DIR", "/tmp/codeduck-workspaces"),
+      maxWorkspaceMb: reader.integer("WORKSPACE_MAX_MB", 2048, 1),
+      maxCacheMb: reader.integer("MIRROR_CACHE_MAX_MB", 10240, 1),
+    },
+    checks: {
+      repairAttempts: reader.integer("CHECK_REPAIR_ATTEMPTS", 1, 0, 10),
+      repos: reader.repoMap("REPO_CHECKS", validateChecksConfig),
+    },
+    review: {
+      checkRuns: reader.boolean("REVIEW_CHECK_RUNS", false),
+      autoReview: reader.repoMap("AUTO_REVIEW", validateAutoReviewConfig),
+    },
+    issueTriage: reader.repoMap("ISSUE_TRIAGE", validateTriageConfig),
+  };
+
+  // Webhooks can only be verified and answered through the app
+  if (!githubApp && !appInvalid) {
+    if (isDevelopment) {
+      warnings.push("GitHub App not configured: webhooks are accepted unsigned but cannot be answered");
+    } else {
+      reader.errors.push(
+        "GitHub App not configured. Set GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY and GITHUB_APP_WEBHOOK_SECRET " +
+          "(or NODE_ENV=development to start without it)."
+      );
+    }
+  }
+
+  const providers = getProviderStatus(config);
+  const defaultStatus = providers.find((status) => status.id === config.agents.defaultProvider);
+  if (defaultProvider && !defaultStatus?.usable) {
+    reader.errors.push(`The default provider (AI_PROVIDER=${providerName}) is not usable: ${defaultStatus?.detail}`);
+  }
+  for (const status of providers) {
+    if (!status.usable && status.id !== config.agents.defaultProvider) {
+      warnings.push(`Provider ${status.id} is not usable (${status.detail}); --provider=${status.id} will be refused`);
+    }
+  }
+
+  if (config.server.adminApiToken && config.server.adminApiToken.length < 16) {
+    warnings.push("ADMIN_API_TOKEN is shorter than 16 characters");
+  }
+
+  return { config, errors: reader.errors, warnings };
+}
+
+/**
+ * Which agent providers have what they need to run
+ */
+export function getProviderStatus(config: RuntimeConfig): ProviderStatus[] {
+  const { claude, codex } = config.agents;
+  return [
+    claude.apiKey
+      ? { id: "claude", usable: true, detail: claude.baseUrl }
+      : { id: "claude", usable: false, detail: "MINIMAX_API_KEY is not set" },
+    codex.apiKey
+      ? { id: "codex", usable: true, detail: codex.baseUrl ?? "default OpenAI endpoint" }
+      : { id: "codex", usable: false, detail: "CODEX_API_KEY is not set" },
+  ];
+}
+
+/**
+ * Lines logged at startup describing what the server runs with
+ */
+export function formatStartupReport(config: RuntimeConfig): string[] {
+  const app = config.githubApp ? `configured (app ${config.githubApp.appId})` : "not configured";
+  return [
+    `Environment: ${config.environment}`,
+    `GitHub App: ${app}`,
+    "Providers:",
+    ...getProviderStatus(config).map((status) => {
+      const marker = status.id === config.agents.defaultProvider ? " (default)" : "";
+      return `  ${status.id}${marker}: ${status.usable ? "usable" : "not usable"}, ${status.detail}`;
+    }),
+    `Jobs: up to ${config.jobs.maxConcurrent} at once, stored in ${config.jobs.dir}`,
+    `Admin API: ${config.server.adminApiToken ? "enabled" : "disabled"}`,
+  ];
+}
+
+/**
+ * Look up a repository's entry in an "owner/repo"-keyed setting
+ */
+export function findRepoEntry<T>(entries: Record<string, T>, owner: string, repo: string): T | null {
+  const key = Object.keys(entries).find((name) => name.toLowerCase() === `${owner}/${repo}`.toLowerCase());
+  return key ? entries[key] : null;
+}
+
+let current: RuntimeConfig | null = null;
+
+/**
+ * The configuration modules read their settings from
+ * Startup validates it with loadRuntimeConfig and installs it; before that
+ * (in tests, for example) the environment is read with defaults for any
+ * unusable values.
+ */
+export function getRuntimeConfig(): RuntimeConfig {
+  if (!current) {
+    current = loadRuntimeConfig().config;
+  }
+  return current;
+}
+
+export function setRuntimeConfig(config: RuntimeConfig): void {
+  current = config;
+}
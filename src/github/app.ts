@@ -1,11 +1,15 @@
 /**
  * CodeDuck - GitHub App Authentication
  *
- * Handles GitHub App JWT creation and installation token generation
+ * Handles GitHub App JWT creation and installation token generation.
+ * API clients are kept per installation and refresh their own token before
+ * it expires; jobs get a freshly minted token for clones and agent runs, so
+ * it lasts the full hour however long the client has been around.
  */
 
 import { createAppAuth } from "@octokit/auth-app";
 import { Octokit } from "@octokit/rest";
+import { getRuntimeConfig } from "../config/runtime-config.js";
 import type { GitHubWebhookPayload } from "../utils/types.js";
 
 /**
@@ -17,47 +21,43 @@ export interface AppConfig {
   webhookSecret?: string;
 }
 
+const installationClients = new Map<number, Octokit>();
+
 /**
- * Create a GitHub App authenticator
+ * Get an Octokit client for a specific installation
+ * The client authenticates as the installation and mints a new token on its
+ * own when the current one is about to expire.
  */
-function createAuth(appConfig: AppConfig) {
-  // Handle escaped newlines in private key
-  const formattedPrivateKey = appConfig.privateKey.replace(/\\n/g, "\n");
-
-  return createAppAuth({
-    appId: appConfig.appId,
-    privateKey: formattedPrivateKey,
-  });
+export function getInstallationOctokit(appConfig: AppConfig, installationId: number): Octokit {
+  let octokit = installationClients.get(installationId);
+  if (!octokit) {
+    // Escaped newlines in the key are expanded when the config is loaded
+    octokit = new Octokit({
+      authStrategy: createAppAuth,
+      auth: {
+        appId: appConfig.appId,
+        privateKey: appConfig.privateKey,
+        installationId,
+      },
+      userAgent: "CodeDuck/1.0",
+    });
+    installationClients.set(installationId, octokit);
+  }
+  return octokit;
 }
 
 /**
- * Get an Octokit client for a specific installation
- * Returns an authenticated Octokit instance ready to use
+ * Forget the client (and with it the cached token) of an installation,
+ * e.g. after its permissions or repositories changed
  */
-export async function getInstallationOctokit(
-  appConfig: AppConfig,
-  installationId: number
-): Promise<Octokit> {
-  const auth = createAuth(appConfig);
-
-  // Get installation access token
-  const { token } = await auth({
-    type: "installation",
-    installationId,
-  });
-
-  return new Octokit({
-    auth: token,
-    userAgent: "CodeDuck/1.0",
-  });
+export function invalidateInstallationToken(installationId: number): void {
+  installationClients.delete(installationId);
 }
 
 /**
- * Get authenticated Octokit for installation (GitHub App required)
+ * App config and installation of a webhook (GitHub App required)
  */
-export async function getAuthOctokit(
-  payload: GitHubWebhookPayload
-): Promise<{ octokit: Octokit; installationId: number | null; token: string }> {
+function requireInstallation(payload: GitHubWebhookPayload): { appConfig: AppConfig; installationId: number } {
   const installationId = getInstallationId(payload);
   const appConfig = getGitHubAppConfig();
 
@@ -74,18 +74,30 @@ export async function getAuthOctokit(
     );
   }
 
-  const auth = createAuth(appConfig);
-  const { token } = await auth({
-    type: "installation",
-    installationId,
-  });
+  return { appConfig, installationId };
+}
 
-  const octokit = new Octokit({
-    auth: token,
-    userAgent: "CodeDuck/1.0",
-  });
+/**
+ * Get authenticated Octokit for installation (GitHub App required)
+ */
+export async function getAuthOctokit(
+  payload: GitHubWebhookPayload
+): Promise<{ octokit: Octokit; installationId: number }> {
+  const { appConfig, installationId } = requireInstallation(payload);
+  return { octokit: getInstallationOctokit(appConfig, installationId), installationId };
+}
 
-  return { octokit, installationId, token };
+/**
+ * Mint a new installation token for one job's clones and agent run
+ * Unlike the API client's token, it cannot be close to expiry when the job starts.
+ */
+export async function mintJobToken(payload: GitHubWebhookPayload): Promise<string> {
+  const { appConfig, installationId } = requireInstallation(payload);
+  const { token } = (await getInstallationOctokit(appConfig, installationId).auth({
+    type: "installation",
+    refresh: true,
+  })) as { token: string };
+  return token;
 }
 
 /**
@@ -102,54 +114,16 @@ export function isInstalled(payload: GitHubWebhookPayload): boolean {
   return !!payload.installation;
 }
 
-/**
- * Check for partial GitHub App config (some but not all env vars set)
- * Returns null if fully configured, warning message if partial, empty if none set
- */
-export function checkPartialAppConfig(): string | null {
-  const hasAppId = !!process.env.GITHUB_APP_ID;
-  const hasPrivateKey = !!process.env.GITHUB_APP_PRIVATE_KEY;
-  const hasWebhookSecret = !!process.env.GITHUB_APP_WEBHOOK_SECRET;
-  const hasAny = hasAppId || hasPrivateKey || hasWebhookSecret;
-  const hasAll = hasAppId && hasPrivateKey && hasWebhookSecret;
-
-  if (hasAll) return null;
-  if (hasAny && !hasAll) {
-    const missing = [];
-    if (!hasAppId) missing.push("GITHUB_APP_ID");
-    if (!hasPrivateKey) missing.push("GITHUB_APP_PRIVATE_KEY");
-    if (!hasWebhookSecret) missing.push("GITHUB_APP_WEBHOOK_SECRET");
-    return `Warning: Partial GitHub App config. Missing env vars: ${missing.join(", ")}. Will fall back to PAT.`;
-  }
-  return null;
-}
-
 /**
  * Check if GitHub App is fully configured
  */
 export function isGitHubAppConfigured(): boolean {
-  return !!(
-    process.env.GITHUB_APP_ID &&
-    process.env.GITHUB_APP_PRIVATE_KEY &&
-    process.env.GITHUB_APP_WEBHOOK_SECRET
-  );
+  return getRuntimeConfig().githubApp !== null;
 }
 
 /**
- * Create GitHub App config from environment
+ * GitHub App config from the runtime configuration
  */
 export function getGitHubAppConfig(): AppConfig | null {
-  const appId = process.env.GITHUB_APP_ID;
-  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
-  const webhookSecret = process.env.GITHUB_APP_WEBHOOK_SECRET;
-
-  if (!appId || !privateKey || !webhookSecret) {
-    return null;
-  }
-
-  return {
-    appId,
-    privateKey,
-    webhookSecret,
-  };
+  return getRuntimeConfig().githubApp;
 }
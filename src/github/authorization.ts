@@ -0,0 +1,161 @@
+/**
+ * CodeDuck - Command authorization
+ *
+ * Decides who may run a command from their permission level on the
+ * repository: read-mode commands need `triage` and write-mode commands
+ * `write` unless the repository's config sets other thresholds, and the
+ * config's user and team allow-lists narrow access further.
+ *
+ * Permission levels are cached per repository and user for a few minutes;
+ * `member` and `installation` webhooks drop the affected entries early.
+ * A denied user gets one explanation per issue, however often they mention
+ * CodeDuck there.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { isAllowedByAccessConfig, REPO_CONFIG_PATH, type RepoConfig } from "../config/repo-config.js";
+import type { CommandMode } from "../utils/types.js";
+import { getPermissionLevel, isOwner, PERMISSION_LEVELS, type PermissionLevel } from "./client.js";
+
+export interface RepositoryRef {
+  name: string;
+  owner: { login: string; type?: string };
+}
+
+export type AuthorizationResult =
+  | { allowed: true; permission: PermissionLevel }
+  | { allowed: false; permission: PermissionLevel; required?: PermissionLevel; reason: "permission" | "allow-list" };
+
+// How long a looked-up permission level is trusted
+const PERMISSION_TTL_MS = 5 * 60 * 1000;
+const MAX_CACHED_PERMISSIONS = 1000;
+
+const permissionCache = new Map<string, { permission: PermissionLevel; expiresAt: number }>();
+
+// Issues (per user) where a denial was already explained
+const MAX_TRACKED_DENIALS = 1000;
+const explainedDenials = new Set<string>();
+
+function permissionKey(owner: string, repo: string, username: string): string {
+  return `${owner}/${repo}:${username}`.toLowerCase();
+}
+
+function cachePermission(key: string, permission: PermissionLevel): void {
+  permissionCache.delete(key);
+  // Evict the oldest entry; Map iteration follows insertion order
+  if (permissionCache.size >= MAX_CACHED_PERMISSIONS) {
+    const oldest = permissionCache.keys().next().value;
+    if (oldest !== undefined) {
+      permissionCache.delete(oldest);
+    }
+  }
+  permissionCache.set(key, { permission, expiresAt: Date.now() + PERMISSION_TTL_MS });
+}
+
+/**
+ * Drop cached permission levels for an account's repositories, optionally
+ * narrowed to one repository and one user
+ */
+export function invalidatePermissions(owner: string, repo?: string, username?: string): void {
+  const prefix = (repo ? `${owner}/${repo}:` : `${owner}/`).toLowerCase();
+  const user = username?.toLowerCase();
+  for (const key of permissionCache.keys()) {
+    if (key.startsWith(prefix) && (user === undefined || key.endsWith(`:${user}`))) {
+      permissionCache.delete(key);
+    }
+  }
+}
+
+/**
+ * Whether a permission level is at least the required one
+ */
+export function meetsPermission(permission: PermissionLevel, required: PermissionLevel): boolean {
+  return PERMISSION_LEVELS.indexOf(permission) >= PERMISSION_LEVELS.indexOf(required);
+}
+
+/**
+ * A user's permission on a repository; personal owners need no lookup and
+ * other users' levels are cached
+ */
+export async function getUserPermission(
+  octokit: Octokit,
+  repository: RepositoryRef,
+  username: string
+): Promise<PermissionLevel> {
+  if (isOwner(repository.owner, username)) {
+    return "admin";
+  }
+  const key = permissionKey(repository.owner.login, repository.name, username);
+  const cached = permissionCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.permission;
+  }
+  const permission = await getPermissionLevel(octokit, repository.owner.login, repository.name, username);
+  cachePermission(key, permission);
+  return permission;
+}
+
+/**
+ * Check whether a user may run a command of the given mode
+ */
+export async function authorizeCommand(
+  octokit: Octokit,
+  repository: RepositoryRef,
+  username: string,
+  mode: CommandMode,
+  config: RepoConfig
+): Promise<AuthorizationResult> {
+  const permission = await getUserPermission(octokit, repository, username);
+  const required = config.access[mode];
+  if (!meetsPermission(permission, required)) {
+    return { allowed: false, permission, required, reason: "permission" };
+  }
+  if (!(await isAllowedByAccessConfig(octokit, repository.owner.login, config, username))) {
+    return { allowed: false, permission, reason: "allow-list" };
+  }
+  return { allowed: true, permission };
+}
+
+/**
+ * Whether to explain a denial to a user on an issue: only the first time,
+ * so repeated mentions cannot make CodeDuck flood the thread
+ */
+export function shouldExplainDenial(repository: RepositoryRef, issueNumber: number, username: string): boolean {
+  const key = `${permissionKey(repository.owner.login, repository.name, username)}#${issueNumber}`;
+  if (explainedDenials.has(key)) {
+    return false;
+  }
+  // Evict the oldest entry; Set iteration follows insertion order
+  if (explainedDenials.size >= MAX_TRACKED_DENIALS) {
+    const oldest = explainedDenials.values().next().value;
+    if (oldest !== undefined) {
+      explainedDenials.delete(oldest);
+    }
+  }
+  explainedDenials.add(key);
+  return true;
+}
+
+/**
+ * Reply explaining why a command was not run
+ */
+export function formatDenial(
+  username: string,
+  mode: CommandMode,
+  result: Extract<AuthorizationResult, { allowed: false }>
+): string {
+  const kind = mode === "write" ? "Commands that change code" : "Commands";
+  if (result.reason === "allow-list") {
+    return (
+      `Sorry @${username}, CodeDuck only takes commands from the people and teams listed in this repository's ` +
+      `\`${REPO_CONFIG_PATH}\`. A maintainer can add you there or run the command for you.`
+    );
+  }
+  const current = result.permission === "none"
+    ? "you don't have access to this repository"
+    : `your access is **${result.permission}**`;
+  return (
+    `Sorry @${username}, I can't run that for you. ${kind} here need **${result.required}** access or higher, ` +
+    `and ${current}. A maintainer can run it for you or grant you access.`
+  );
+}
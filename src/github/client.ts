@@ -5,6 +5,7 @@
  */
 
 import { Octokit } from "@octokit/rest";
+import type { GitHubApiHeaders } from "../utils/types.js";
 import { rateLimiter } from "./rate-limiter.js";
 
 /**
@@ -20,8 +21,28 @@ export function createOctokit(token: string): Octokit {
   });
 }
 
+const PER_PAGE = 100;
+
+/**
+ * Fetch list pages through the rate limiter until a short page, starting at `firstPage`
+ */
+async function listPages<T>(
+  fetchPage: (page: number) => Promise<{ data: T[]; headers: GitHubApiHeaders }>,
+  firstPage = 1
+): Promise<T[]> {
+  const items: T[] = [];
+  for (let page = firstPage; ; page++) {
+    const data = await rateLimiter.executeWithRetry(() => fetchPage(page));
+    items.push(...data);
+    if (data.length < PER_PAGE) {
+      return items;
+    }
+  }
+}
+
 /**
  * Post a comment on an issue or PR
+ * Returns the new comment's ID so it can be edited later
  */
 export async function postComment(
   octokit: Octokit,
@@ -29,7 +50,7 @@ export async function postComment(
   repo: string,
   issueNumber: number,
   body: string
-): Promise<void> {
+): Promise<number> {
   console.log(`[CLIENT] postComment: owner=${owner}, repo=${repo}, issue=${issueNumber}`);
   const response = await octokit.rest.issues.createComment({
     owner,
@@ -38,6 +59,278 @@ export async function postComment(
     body,
   });
   console.log(`[CLIENT] Comment created: ${response.data.html_url}`);
+  return response.data.id;
+}
+
+/**
+ * Replace the body of an existing issue or PR comment
+ */
+export async function updateComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+  body: string
+): Promise<void> {
+  await rateLimiter.executeWithRetry(() =>
+    octokit.rest.issues.updateComment({
+      owner,
+      repo,
+      comment_id: commentId,
+      body,
+    })
+  );
+}
+
+/**
+ * Reply inside an inline review thread
+ * Returns the new review comment's ID
+ */
+export async function replyToReviewComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  commentId: number,
+  body: string
+): Promise<number> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.pulls.createReplyForReviewComment({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      comment_id: commentId,
+      body,
+    })
+  );
+  return data.id;
+}
+
+/**
+ * Replace the body of an inline review comment
+ */
+export async function updateReviewComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  commentId: number,
+  body: string
+): Promise<void> {
+  await rateLimiter.executeWithRetry(() =>
+    octokit.rest.pulls.updateReviewComment({
+      owner,
+      repo,
+      comment_id: commentId,
+      body,
+    })
+  );
+}
+
+/**
+ * A comment in an inline review thread
+ */
+export interface ReviewThreadComment {
+  id: number;
+  author: string | null;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Get the comments of an inline review thread, oldest first
+ */
+export async function listReviewThread(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  rootCommentId: number
+): Promise<ReviewThreadComment[]> {
+  const comments = await listPages((page) =>
+    octokit.rest.pulls.listReviewComments({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: PER_PAGE,
+      page,
+    })
+  );
+
+  return comments
+    .filter((comment) => comment.id === rootCommentId || comment.in_reply_to_id === rootCommentId)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((comment) => ({
+      id: comment.id,
+      author: comment.user?.login ?? null,
+      body: comment.body,
+      createdAt: comment.created_at,
+    }));
+}
+
+/**
+ * An issue or pull request as seen through the issues API
+ */
+export interface IssueInfo {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  author: string | null;
+  labels: string[];
+  createdAt: string;
+  /** Number of comments on the issue */
+  commentCount: number;
+}
+
+/**
+ * Get an issue (or the issue side of a pull request)
+ */
+export async function getIssue(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number
+): Promise<IssueInfo> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.issues.get({
+      owner,
+      repo,
+      issue_number: issueNumber,
+    })
+  );
+
+  return {
+    number: data.number,
+    title: data.title,
+    body: data.body ?? "",
+    state: data.state,
+    author: data.user?.login ?? null,
+    labels: data.labels
+      .map((label) => (typeof label === "string" ? label : label.name ?? ""))
+      .filter((name) => name !== ""),
+    createdAt: data.created_at,
+    commentCount: data.comments,
+  };
+}
+
+/**
+ * A top-level comment on an issue or pull request
+ */
+export interface IssueComment {
+  id: number;
+  author: string | null;
+  body: string;
+  createdAt: string;
+}
+
+/**
+ * Get the comments on an issue or pull request, oldest first
+ * With `latest`, only the pages holding the last `count` of the issue's
+ * `total` comments are fetched (later pages too, if comments were added since).
+ */
+export async function listIssueComments(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  latest?: { count: number; total: number }
+): Promise<IssueComment[]> {
+  const firstPage = latest ? Math.floor(Math.max(0, latest.total - latest.count) / PER_PAGE) + 1 : 1;
+  const comments = await listPages(
+    (page) =>
+      octokit.rest.issues.listComments({
+        owner,
+        repo,
+        issue_number: issueNumber,
+        per_page: PER_PAGE,
+        page,
+      }),
+    firstPage
+  );
+
+  return comments.map((comment) => ({
+    id: comment.id,
+    author: comment.user?.login ?? null,
+    body: comment.body ?? "",
+    createdAt: comment.created_at,
+  }));
+}
+
+/**
+ * A label defined in a repository
+ */
+export interface RepoLabel {
+  name: string;
+  description: string | null;
+}
+
+/**
+ * List the labels defined in a repository
+ */
+export async function listRepoLabels(octokit: Octokit, owner: string, repo: string): Promise<RepoLabel[]> {
+  const labels = await listPages((page) =>
+    octokit.rest.issues.listLabelsForRepo({
+      owner,
+      repo,
+      per_page: PER_PAGE,
+      page,
+    })
+  );
+  return labels.map((label) => ({ name: label.name, description: label.description ?? null }));
+}
+
+/**
+ * Add existing labels to an issue or pull request
+ */
+export async function addLabels(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  labels: string[]
+): Promise<void> {
+  await rateLimiter.executeWithRetry(() =>
+    octokit.rest.issues.addLabels({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      labels,
+    })
+  );
+}
+
+/**
+ * An issue returned by search
+ */
+export interface IssueSearchResult {
+  number: number;
+  title: string;
+  state: string;
+  url: string;
+}
+
+/**
+ * Search a repository's issues (not pull requests) with GitHub search syntax
+ */
+export async function searchIssues(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  terms: string,
+  limit = 10
+): Promise<IssueSearchResult[]> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.search.issuesAndPullRequests({
+      q: `repo:${owner}/${repo} is:issue ${terms}`,
+      per_page: limit,
+    })
+  );
+  return data.items.map((item) => ({
+    number: item.number,
+    title: item.title,
+    state: item.state,
+    url: item.html_url,
+  }));
 }
 
 /**
@@ -70,6 +363,33 @@ export async function createBranch(
   );
 }
 
+/**
+ * Check whether a branch exists
+ */
+export async function branchExists(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branchName: string
+): Promise<boolean> {
+  try {
+    await rateLimiter.executeWithRetry(() =>
+      octokit.rest.git.getRef({
+        owner,
+        repo,
+        ref: `heads/${branchName}`,
+      })
+    );
+    return true;
+  } catch (error) {
+    const typedError = error as { status?: number };
+    if (typedError.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
+
 /**
  * Get file contents
  */
@@ -125,6 +445,105 @@ export async function createOrUpdateFile(
   });
 }
 
+/**
+ * Git file modes supported in commits (regular, executable, symlink)
+ */
+export type FileMode = "100644" | "100755" | "120000";
+
+/**
+ * One file-level change in a commit
+ * Content is raw bytes; for symlinks it is the link target. Deletes and
+ * renames carry the mode of the entry they remove, which the tree must match.
+ */
+export type FileChange =
+  | { action: "add" | "modify"; path: string; content: Buffer; mode?: FileMode }
+  | { action: "delete"; path: string; mode?: FileMode }
+  | { action: "rename"; previousPath: string; previousMode?: FileMode; path: string; content: Buffer; mode?: FileMode };
+
+export interface CommitChangesOptions {
+  branch: string;
+  /** Commit the change set builds on; the branch must currently point here */
+  parentSha: string;
+  message: string;
+  changes: FileChange[];
+  /** Create the branch instead of fast-forwarding an existing one */
+  createBranch?: boolean;
+}
+
+type TreeEntry = {
+  path: string;
+  mode: FileMode;
+  type: "blob";
+  sha: string | null;
+};
+
+/**
+ * Commit a set of file changes atomically through the Git Data API
+ * (blobs -> tree -> commit -> ref), returning the new commit SHA.
+ * Existing branches are only fast-forwarded, so concurrent pushes make this fail
+ * instead of being overwritten.
+ */
+export async function commitChanges(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  options: CommitChangesOptions
+): Promise<string> {
+  const { branch, parentSha, message, changes } = options;
+  if (changes.length === 0) {
+    throw new Error("No changes to commit");
+  }
+
+  const parent = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.git.getCommit({ owner, repo, commit_sha: parentSha })
+  );
+
+  const tree: TreeEntry[] = [];
+  for (const change of changes) {
+    if (change.action === "delete") {
+      tree.push({ path: change.path, mode: change.mode ?? "100644", type: "blob", sha: null });
+    }
+    if (change.action === "rename") {
+      tree.push({ path: change.previousPath, mode: change.previousMode ?? "100644", type: "blob", sha: null });
+    }
+    if (change.action === "delete") {
+      continue;
+    }
+
+    // Blobs are always uploaded as base64 so binary content survives
+    const blob = await rateLimiter.executeWithRetry(() =>
+      octokit.rest.git.createBlob({
+        owner,
+        repo,
+        content: change.content.toString("base64"),
+        encoding: "base64",
+      })
+    );
+    tree.push({ path: change.path, mode: change.mode ?? "100644", type: "blob", sha: blob.sha });
+  }
+
+  const newTree = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.git.createTree({ owner, repo, base_tree: parent.tree.sha, tree })
+  );
+
+  const commit = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.git.createCommit({ owner, repo, message, tree: newTree.sha, parents: [parentSha] })
+  );
+
+  if (options.createBranch) {
+    await rateLimiter.executeWithRetry(() =>
+      octokit.rest.git.createRef({ owner, repo, ref: `refs/heads/${branch}`, sha: commit.sha })
+    );
+  } else {
+    await rateLimiter.executeWithRetry(() =>
+      octokit.rest.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha: commit.sha, force: false })
+    );
+  }
+
+  console.log(`[CLIENT] Committed ${changes.length} change(s) to ${owner}/${repo}@${branch}: ${commit.sha}`);
+  return commit.sha;
+}
+
 /**
  * Create a pull request
  */
@@ -135,7 +554,8 @@ export async function createPullRequest(
   title: string,
   body: string,
   head: string,
-  base: string
+  base: string,
+  draft = false
 ): Promise<string> {
   const response = await octokit.rest.pulls.create({
     owner,
@@ -144,10 +564,286 @@ export async function createPullRequest(
     body,
     head,
     base,
+    draft,
   });
   return response.data.html_url;
 }
 
+/**
+ * Pull request fields CodeDuck needs to work on an existing PR
+ */
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  draft: boolean;
+  author: string | null;
+  headRef: string;
+  headSha: string;
+  /** null when the head repository (fork) was deleted */
+  headRepoFullName: string | null;
+  baseRef: string;
+  baseSha: string;
+  maintainerCanModify: boolean;
+}
+
+/**
+ * Get a pull request
+ */
+export async function getPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestInfo> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.pulls.get({
+      owner,
+      repo,
+      pull_number: pullNumber,
+    })
+  );
+
+  return {
+    number: data.number,
+    title: data.title,
+    body: data.body ?? "",
+    state: data.state,
+    draft: data.draft ?? false,
+    author: data.user?.login ?? null,
+    headRef: data.head.ref,
+    headSha: data.head.sha,
+    headRepoFullName: data.head.repo?.full_name ?? null,
+    baseRef: data.base.ref,
+    baseSha: data.base.sha,
+    maintainerCanModify: data.maintainer_can_modify,
+  };
+}
+
+/**
+ * A file changed by a pull request
+ * `patch` is missing for binary files and very large diffs.
+ */
+export interface PullRequestFile {
+  filename: string;
+  status: string;
+  previousFilename?: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+}
+
+/**
+ * List the files changed by a pull request (GitHub caps this at 3000 files)
+ */
+export async function listPullRequestFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestFile[]> {
+  const files = await listPages((page) =>
+    octokit.rest.pulls.listFiles({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      per_page: PER_PAGE,
+      page,
+    })
+  );
+
+  return files.map((file) => ({
+    filename: file.filename,
+    status: file.status,
+    previousFilename: file.previous_filename,
+    additions: file.additions,
+    deletions: file.deletions,
+    patch: file.patch,
+  }));
+}
+
+export interface CommitComparison {
+  /** "ahead" when head only adds commits on top of base; "diverged" after a force-push */
+  status: string;
+  commits: { sha: string; message: string }[];
+  files: PullRequestFile[];
+}
+
+/**
+ * Compare two commits (commits and files reachable from head but not base)
+ */
+export async function compareCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  base: string,
+  head: string
+): Promise<CommitComparison> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${base}...${head}`,
+    })
+  );
+
+  return {
+    status: data.status,
+    commits: data.commits.map((commit) => ({ sha: commit.sha, message: commit.commit.message })),
+    files: (data.files ?? []).map((file) => ({
+      filename: file.filename,
+      status: file.status,
+      previousFilename: file.previous_filename,
+      additions: file.additions,
+      deletions: file.deletions,
+      patch: file.patch,
+    })),
+  };
+}
+
+/**
+ * Inline comment attached to a review
+ * `startLine` is set for multi-line comments; lines refer to the new file (RIGHT side).
+ */
+export interface ReviewComment {
+  path: string;
+  line: number;
+  startLine?: number;
+  body: string;
+}
+
+/**
+ * Submit a pull request review with inline comments
+ * Returns the review's URL.
+ */
+export async function createReview(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+  review: { commitId: string; body: string; comments: ReviewComment[] }
+): Promise<string> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.pulls.createReview({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      commit_id: review.commitId,
+      body: review.body,
+      event: "COMMENT",
+      comments: review.comments.map((comment) => ({
+        path: comment.path,
+        line: comment.line,
+        side: "RIGHT",
+        body: comment.body,
+        ...(comment.startLine !== undefined && comment.startLine < comment.line
+          ? { start_line: comment.startLine, start_side: "RIGHT" }
+          : {}),
+      })),
+    })
+  );
+  return data.html_url;
+}
+
+/**
+ * File/line annotation on a check run
+ */
+export interface CheckAnnotation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  level: "notice" | "warning" | "failure";
+  title?: string;
+  message: string;
+}
+
+export type CheckConclusion = "success" | "neutral" | "failure";
+
+/**
+ * The check runs API accepts at most this many annotations per request
+ */
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+/**
+ * Create a completed check run on a commit, returning its URL
+ * Annotations beyond the per-request limit are added by follow-up updates;
+ * the run stays in progress until the last batch is in.
+ */
+export async function createCheckRun(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  run: {
+    name: string;
+    headSha: string;
+    conclusion: CheckConclusion;
+    title: string;
+    summary: string;
+    annotations: CheckAnnotation[];
+  }
+): Promise<string> {
+  const batches: CheckAnnotation[][] = [];
+  for (let i = 0; i < run.annotations.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+    batches.push(run.annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+  }
+  const [first = [], ...rest] = batches;
+
+  const toOutput = (annotations: CheckAnnotation[]) => ({
+    title: run.title,
+    summary: run.summary,
+    annotations: annotations.map((annotation) => ({
+      path: annotation.path,
+      start_line: annotation.startLine,
+      end_line: annotation.endLine,
+      annotation_level: annotation.level,
+      message: annotation.message,
+      ...(annotation.title ? { title: annotation.title } : {}),
+    })),
+  });
+
+  const created = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.checks.create({
+      owner,
+      repo,
+      name: run.name,
+      head_sha: run.headSha,
+      ...(rest.length === 0 ? { status: "completed", conclusion: run.conclusion } : { status: "in_progress" }),
+      output: toOutput(first),
+    })
+  );
+
+  try {
+    for (const [index, annotations] of rest.entries()) {
+      const last = index === rest.length - 1;
+      await rateLimiter.executeWithRetry(() =>
+        octokit.rest.checks.update({
+          owner,
+          repo,
+          check_run_id: created.id,
+          ...(last ? { status: "completed", conclusion: run.conclusion } : {}),
+          output: toOutput(annotations),
+        })
+      );
+    }
+  } catch (error) {
+    // Don't leave the run in progress: complete it without the missing
+    // annotations, neutral unless the findings already fail it
+    console.error(`[CLIENT] Failed to add annotations to check run ${created.id}:`, error);
+    await rateLimiter.executeWithRetry(() =>
+      octokit.rest.checks.update({
+        owner,
+        repo,
+        check_run_id: created.id,
+        status: "completed",
+        conclusion: run.conclusion === "failure" ? "failure" : "neutral",
+      })
+    );
+  }
+
+  return created.html_url ?? "";
+}
+
 /**
  * Get the default branch of a repository
  */
@@ -163,6 +859,25 @@ export async function getDefaultBranch(
   return response.data.default_branch || "main";
 }
 
+/**
+ * Get the commit SHA a branch points to
+ */
+export async function getBranchHeadSha(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  branch: string
+): Promise<string> {
+  const data = await rateLimiter.executeWithRetry(() =>
+    octokit.rest.git.getRef({
+      owner,
+      repo,
+      ref: `heads/${branch}`,
+    })
+  );
+  return data.object.sha;
+}
+
 /**
  * Get rate limiter status for monitoring
  */
@@ -177,30 +892,75 @@ export function resetRateLimiter() {
   rateLimiter.reset();
 }
 
+export type PermissionLevel = "none" | "read" | "triage" | "write" | "maintain" | "admin";
+
 /**
- * Check if a user is a collaborator on a repository
+ * Repository permission levels, lowest first
  */
-export async function isCollaborator(
+export const PERMISSION_LEVELS: PermissionLevel[] = ["none", "read", "triage", "write", "maintain", "admin"];
+
+/**
+ * Get a user's permission level on a repository
+ * The role name covers triage and maintain; custom roles fall back to the
+ * base permission they build on.
+ */
+export async function getPermissionLevel(
   octokit: Octokit,
   owner: string,
   repo: string,
   username: string
+): Promise<PermissionLevel> {
+  try {
+    const data = await rateLimiter.executeWithRetry(() =>
+      octokit.rest.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username,
+      })
+    );
+    const role = data.role_name as PermissionLevel;
+    if (PERMISSION_LEVELS.includes(role)) {
+      return role;
+    }
+    const permission = data.permission as PermissionLevel;
+    return PERMISSION_LEVELS.includes(permission) ? permission : "none";
+  } catch (error) {
+    // Unknown users
+    if ((error as { status?: number }).status === 404) {
+      return "none";
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check if a user is an active member of an organization team
+ */
+export async function isTeamMember(
+  octokit: Octokit,
+  org: string,
+  teamSlug: string,
+  username: string
 ): Promise<boolean> {
   try {
-    await octokit.repos.checkCollaborator({
-      owner,
-      repo,
-      username,
-    });
-    return true;
+    const data = await rateLimiter.executeWithRetry(() =>
+      octokit.rest.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: teamSlug,
+        username,
+      })
+    );
+    return data.state === "active";
   } catch {
     return false;
   }
 }
 
 /**
- * Check if a user is the repository owner
+ * Check if a user personally owns the repository
+ * Organization-owned repositories have no owning user; org owners get
+ * their access through getPermissionLevel instead.
  */
-export function isOwner(owner: string, username: string): boolean {
-  return owner === username;
+export function isOwner(owner: { login: string; type?: string }, username: string): boolean {
+  return owner.type !== "Organization" && owner.login.toLowerCase() === username.toLowerCase();
 }
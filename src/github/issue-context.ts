@@ -0,0 +1,127 @@
+/**
+ * CodeDuck - Issue history
+ *
+ * Fetches an issue's (or PR's) title, description, labels and most recent
+ * comments and renders them for the prompt as delimited, untrusted content
+ * that fits a token budget.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { getIssue, listIssueComments, type IssueComment, type IssueInfo } from "./client.js";
+import { wrapUntrusted } from "../utils/markdown.js";
+
+/**
+ * How many of the latest comments are considered at all
+ */
+const MAX_RECENT_COMMENTS = 20;
+
+/**
+ * Default prompt budget for the whole history block
+ */
+const DEFAULT_TOKEN_BUDGET = 6000;
+
+/**
+ * Rough characters-per-token ratio for English text and code
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Largest share of the budget the description or a single comment may take
+ */
+const MAX_DESCRIPTION_SHARE = 0.4;
+const MAX_COMMENT_SHARE = 0.25;
+
+export interface IssueHistory {
+  issue: IssueInfo;
+  /** Most recent comments, oldest first */
+  comments: IssueComment[];
+  /** Comments before those that were not fetched into the history */
+  olderComments: number;
+}
+
+export interface IssueHistoryFormatOptions {
+  /** Include the description (PR prompts already carry it) */
+  includeDescription?: boolean;
+  tokenBudget?: number;
+}
+
+/**
+ * Approximate the number of tokens a text takes up in a prompt
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fetch an issue or PR with its latest comments, leaving out the given
+ * comments (the command itself and CodeDuck's acknowledgment)
+ */
+export async function fetchIssueHistory(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  excludeCommentIds: number[] = []
+): Promise<IssueHistory> {
+  // The comment count tells which pages hold the latest comments
+  const issue = await getIssue(octokit, owner, repo, issueNumber);
+  const fetched = await listIssueComments(octokit, owner, repo, issueNumber, {
+    count: MAX_RECENT_COMMENTS + excludeCommentIds.length,
+    total: issue.commentCount,
+  });
+
+  const relevant = fetched.filter((comment) => !excludeCommentIds.includes(comment.id));
+  const comments = relevant.slice(-MAX_RECENT_COMMENTS);
+  const unfetched = Math.max(0, issue.commentCount - fetched.length);
+  return { issue, comments, olderComments: unfetched + relevant.length - comments.length };
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}\n(truncated)` : text;
+}
+
+/**
+ * Render the history for the prompt
+ * Newest comments win when the budget runs out; older ones are counted instead.
+ */
+export function formatIssueHistory(history: IssueHistory, options: IssueHistoryFormatOptions = {}): string {
+  const { issue } = history;
+  const budget = (options.tokenBudget ?? DEFAULT_TOKEN_BUDGET) * CHARS_PER_TOKEN;
+
+  const header = [
+    `#${issue.number}: ${issue.title}`,
+    `Opened by @${issue.author ?? "unknown"} on ${issue.createdAt} (${issue.state})`,
+    `Labels: ${issue.labels.join(", ") || "(none)"}`,
+  ];
+  if (options.includeDescription ?? true) {
+    const body = issue.body.trim();
+    header.push("", "Description:", body ? truncate(body, Math.floor(budget * MAX_DESCRIPTION_SHARE)) : "(no description)");
+  }
+
+  let remaining = budget - header.join("\n").length;
+  const kept: string[] = [];
+  for (const comment of [...history.comments].reverse()) {
+    const maxLength = Math.min(Math.floor(budget * MAX_COMMENT_SHARE), remaining);
+    const entry = `@${comment.author ?? "unknown"} (${comment.createdAt}):\n${truncate(comment.body.trim(), maxLength)}`;
+    if (maxLength <= 0 || entry.length > remaining) {
+      break;
+    }
+    kept.unshift(entry);
+    remaining -= entry.length + 2;
+  }
+
+  const omitted = history.olderComments + history.comments.length - kept.length;
+  const discussion = [
+    ...(omitted > 0 ? [`(${omitted} earlier comment(s) omitted)`] : []),
+    ...kept,
+  ];
+
+  const content = [
+    ...header,
+    "",
+    "Comments (oldest first):",
+    discussion.join("\n\n") || "(no comments)",
+  ].join("\n");
+
+  return wrapUntrusted(content, "The issue text and discussion below were written by GitHub users.");
+}
@@ -0,0 +1,186 @@
+/**
+ * CodeDuck - Live Progress Comment
+ *
+ * Posts a single acknowledgment comment and edits it in place as the agent
+ * works, then replaces it with the final answer. Commands from inline review
+ * threads get their acknowledgment as a reply in the same thread.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import {
+  postComment,
+  replyToReviewComment,
+  updateComment,
+  updateReviewComment,
+} from "./client.js";
+
+/**
+ * Minimum time between progress edits (GitHub secondary rate limits apply to edits too)
+ */
+const DEFAULT_UPDATE_INTERVAL_MS = 5000;
+
+/**
+ * Only the tail of the partial output is shown while running
+ */
+const MAX_PARTIAL_OUTPUT = 2000;
+
+export interface ProgressState {
+  step?: string;
+  output?: string;
+}
+
+interface ProgressCommentOptions {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  /** Reply in this review comment's thread instead of the PR conversation */
+  reviewCommentId?: number;
+  header?: string;
+  intervalMs?: number;
+}
+
+/**
+ * Render the in-progress comment body
+ */
+export function renderProgress(header: string, state: ProgressState): string {
+  const sections = [header];
+
+  if (state.step) {
+    sections.push(`**Current step:** ${state.step}`);
+  }
+
+  if (state.output) {
+    let output = state.output.trim();
+    if (output.length > MAX_PARTIAL_OUTPUT) {
+      output = `…${output.slice(-MAX_PARTIAL_OUTPUT)}`;
+    }
+    // Close a code fence left open by the cut so the rest of the comment renders
+    if ((output.match(/```/g) || []).length % 2 === 1) {
+      output += "\n```";
+    }
+    sections.push(`<details>\n<summary>Partial output</summary>\n\n${output}\n\n</details>`);
+  }
+
+  return sections.join("\n\n");
+}
+
+export class ProgressComment {
+  private readonly octokit: Octokit;
+  private readonly owner: string;
+  private readonly repo: string;
+  private readonly issueNumber: number;
+  private readonly reviewCommentId?: number;
+  private readonly header: string;
+  private readonly intervalMs: number;
+
+  private commentId: number | null = null;
+  private state: ProgressState = {};
+  private lastEditAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<void> = Promise.resolve();
+  private finished = false;
+
+  constructor(options: ProgressCommentOptions) {
+    this.octokit = options.octokit;
+    this.owner = options.owner;
+    this.repo = options.repo;
+    this.issueNumber = options.issueNumber;
+    this.reviewCommentId = options.reviewCommentId;
+    this.header = options.header ?? "CodeDuck is processing your request...";
+    this.intervalMs = options.intervalMs ?? DEFAULT_UPDATE_INTERVAL_MS;
+  }
+
+  /**
+   * ID of the acknowledgment comment, once posted
+   */
+  getCommentId(): number | null {
+    return this.commentId;
+  }
+
+  /**
+   * Post the acknowledgment comment
+   */
+  async start(): Promise<void> {
+    this.commentId = await this.post(this.header);
+    this.lastEditAt = Date.now();
+  }
+
+  /**
+   * Record new progress; the comment is edited at most once per interval
+   */
+  update(state: ProgressState): void {
+    if (this.finished) {
+      return;
+    }
+    this.state = { ...this.state, ...state };
+
+    if (this.timer) {
+      return;
+    }
+
+    const wait = Math.max(0, this.lastEditAt + this.intervalMs - Date.now());
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueueEdit(() => renderProgress(this.header, this.state));
+    }, wait);
+  }
+
+  /**
+   * Replace the progress comment with the final body
+   * Falls back to a new comment if the acknowledgment could not be posted or edited
+   */
+  async finish(body: string): Promise<void> {
+    this.finished = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.inFlight;
+
+    if (this.commentId !== null) {
+      try {
+        await this.edit(this.commentId, body);
+        return;
+      } catch (error) {
+        console.error("[PROGRESS] Failed to edit progress comment, posting a new one:", error);
+      }
+    }
+
+    await this.post(body);
+  }
+
+  private post(body: string): Promise<number> {
+    if (this.reviewCommentId !== undefined) {
+      return replyToReviewComment(this.octokit, this.owner, this.repo, this.issueNumber, this.reviewCommentId, body);
+    }
+    return postComment(this.octokit, this.owner, this.repo, this.issueNumber, body);
+  }
+
+  private edit(commentId: number, body: string): Promise<void> {
+    if (this.reviewCommentId !== undefined) {
+      return updateReviewComment(this.octokit, this.owner, this.repo, commentId, body);
+    }
+    return updateComment(this.octokit, this.owner, this.repo, commentId, body);
+  }
+
+  private enqueueEdit(render: () => string): void {
+    const commentId = this.commentId;
+    if (commentId === null || this.finished) {
+      return;
+    }
+
+    this.inFlight = this.inFlight.then(async () => {
+      if (this.finished) {
+        return;
+      }
+      this.lastEditAt = Date.now();
+      try {
+        await this.edit(commentId, render());
+      } catch (error) {
+        // Progress is best-effort; the final answer still gets posted
+        console.error("[PROGRESS] Failed to update progress comment:", error);
+      }
+    });
+  }
+}
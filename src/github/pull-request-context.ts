@@ -0,0 +1,170 @@
+/**
+ * CodeDuck - Pull request context
+ *
+ * Fetches what the agent needs to work on a pull request (metadata, changed
+ * files and a size-limited unified diff) and renders it for the prompt.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import {
+  getPullRequest,
+  listPullRequestFiles,
+  type PullRequestFile,
+  type PullRequestInfo,
+  type ReviewThreadComment,
+} from "./client.js";
+import { fenceCode, wrapUntrusted } from "../utils/markdown.js";
+import type { ReviewThreadRef } from "../utils/types.js";
+
+/**
+ * Size limits for what goes into the prompt
+ */
+const MAX_BODY_LENGTH = 5000;
+const MAX_FILE_PATCH_LENGTH = 20_000;
+const MAX_DIFF_LENGTH = 60_000;
+const MAX_LISTED_FILES = 300;
+const MAX_THREAD_COMMENTS = 30;
+const MAX_THREAD_COMMENT_LENGTH = 4000;
+
+export interface PullRequestContext {
+  pullRequest: PullRequestInfo;
+  files: PullRequestFile[];
+  /** Unified diff of the PR, possibly cut to fit the limits */
+  diff: string;
+  /** Files whose diff was left out (binary, too large, or over the total limit) */
+  omittedFiles: string[];
+}
+
+function fileHeader(file: PullRequestFile): string {
+  const before = file.status === "added" ? "/dev/null" : `a/${file.previousFilename ?? file.filename}`;
+  const after = file.status === "removed" ? "/dev/null" : `b/${file.filename}`;
+  return `diff --git a/${file.previousFilename ?? file.filename} b/${file.filename}\n--- ${before}\n+++ ${after}`;
+}
+
+/**
+ * Assemble a unified diff from per-file patches, leaving out files that
+ * would push it past the limits
+ */
+export function buildUnifiedDiff(files: PullRequestFile[]): { diff: string; omittedFiles: string[] } {
+  const parts: string[] = [];
+  const omittedFiles: string[] = [];
+  let length = 0;
+
+  for (const file of files) {
+    if (!file.patch || file.patch.length > MAX_FILE_PATCH_LENGTH) {
+      omittedFiles.push(file.filename);
+      continue;
+    }
+    const part = `${fileHeader(file)}\n${file.patch}`;
+    if (length + part.length > MAX_DIFF_LENGTH) {
+      omittedFiles.push(file.filename);
+      continue;
+    }
+    parts.push(part);
+    length += part.length + 1;
+  }
+
+  return { diff: parts.join("\n"), omittedFiles };
+}
+
+/**
+ * Fetch a pull request with its changed files and diff
+ */
+export async function fetchPullRequestContext(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number
+): Promise<PullRequestContext> {
+  const [pullRequest, files] = await Promise.all([
+    getPullRequest(octokit, owner, repo, pullNumber),
+    listPullRequestFiles(octokit, owner, repo, pullNumber),
+  ]);
+  return { pullRequest, files, ...buildUnifiedDiff(files) };
+}
+
+/**
+ * Render the pull request for the agent's prompt
+ */
+export function formatPullRequestContext(context: PullRequestContext): string {
+  const { pullRequest, files, diff, omittedFiles } = context;
+
+  const body = pullRequest.body.trim();
+  const trimmedBody = body.length > MAX_BODY_LENGTH ? `${body.slice(0, MAX_BODY_LENGTH)}\n(description truncated)` : body;
+
+  const listed = files
+    .slice(0, MAX_LISTED_FILES)
+    .map((file) => `- ${file.filename} (${file.status}, +${file.additions}/-${file.deletions})`);
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`- ... and ${files.length - MAX_LISTED_FILES} more`);
+  }
+
+  const about = [
+    `Pull request #${pullRequest.number}: ${pullRequest.title}`,
+    `Author: ${pullRequest.author ?? "unknown"}`,
+    `Base: ${pullRequest.baseRef} <- Head: ${pullRequest.headRef}${pullRequest.draft ? " (draft)" : ""}`,
+    "",
+    "Description:",
+    trimmedBody || "(no description)",
+  ].join("\n");
+
+  const sections = [
+    wrapUntrusted(about, "The pull request's title and description below were written by GitHub users."),
+    "",
+    `Changed files (${files.length}):`,
+    listed.join("\n") || "- (none)",
+    "",
+    "Diff:",
+    fenceCode(diff || "(no textual diff available)", "diff"),
+  ];
+
+  if (omittedFiles.length > 0) {
+    sections.push(
+      "",
+      `The diff above leaves out ${omittedFiles.length} file(s) that are binary or too large; ` +
+        "read them from the working directory if needed."
+    );
+  }
+
+  return sections.join("\n");
+}
+
+/**
+ * Render an inline review thread (code under discussion plus the
+ * conversation so far) for the agent's prompt
+ */
+export function formatReviewThread(thread: ReviewThreadRef, comments: ReviewThreadComment[]): string {
+  const lines = thread.line === undefined
+    ? ""
+    : thread.startLine !== undefined && thread.startLine < thread.line
+      ? ` (lines ${thread.startLine}-${thread.line})`
+      : ` (line ${thread.line})`;
+
+  // Keep the start of the thread and its most recent replies
+  const shown = comments.length > MAX_THREAD_COMMENTS
+    ? [comments[0], ...comments.slice(-(MAX_THREAD_COMMENTS - 1))]
+    : comments;
+  const history = shown.map((comment) => {
+    const body = comment.body.length > MAX_THREAD_COMMENT_LENGTH
+      ? `${comment.body.slice(0, MAX_THREAD_COMMENT_LENGTH)}\n(comment truncated)`
+      : comment.body;
+    return `@${comment.author ?? "unknown"} (${comment.createdAt}):\n${body}`;
+  });
+  if (shown.length < comments.length) {
+    history.splice(1, 0, `(${comments.length - shown.length} earlier replies omitted)`);
+  }
+
+  return [
+    `This request was made in an inline review thread on ${thread.path}${lines}.`,
+    "Answer the latest comment in the thread, focusing on the code it is attached to.",
+    "",
+    "Code under discussion:",
+    fenceCode(thread.diffHunk || "(no diff hunk available)", "diff"),
+    "",
+    "Thread so far (oldest first):",
+    wrapUntrusted(
+      history.join("\n\n") || "(no earlier comments)",
+      "The review comments below were written by GitHub users."
+    ),
+  ].join("\n");
+}
@@ -4,6 +4,8 @@
  * Entry point for the application
  */
 
+// Load .env before any module reads the runtime configuration
+import "dotenv/config";
 import { startServer } from "./server.js";
 
 startServer();
@@ -0,0 +1,133 @@
+/**
+ * Runs persisted webhook jobs on the worker pool.
+ *
+ * Each running job gets its own AbortController. Cancelling a job aborts
+ * that controller, so every stage of the job that honours the signal
+ * (workspace checkout, agent run, checks, publishing) stops, while other
+ * jobs - even ones for the same issue or PR - keep running.
+ */
+
+import type { JobRecord, JobStore } from "./job-store.js";
+import type { WorkerPool } from "./worker-pool.js";
+
+/**
+ * Does the work of a job; should stop soon after the signal is aborted
+ */
+export type JobHandler = (job: JobRecord, signal: AbortSignal) => Promise<void>;
+
+interface JobRunnerOptions {
+  store: JobStore;
+  pool: WorkerPool;
+  handler: JobHandler;
+  /** Jobs that skip the queue, e.g. stop requests that must not wait behind the work they cancel */
+  isUrgent?: (job: JobRecord) => boolean;
+  /** Called when a job has to wait, with its 1-based queue position */
+  onQueued?: (job: JobRecord, position: number) => void;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+export class JobRunner {
+  private readonly store: JobStore;
+  private readonly pool: WorkerPool;
+  private readonly handler: JobHandler;
+  private readonly isUrgent: (job: JobRecord) => boolean;
+  private readonly onQueued?: (job: JobRecord, position: number) => void;
+  private readonly logger: Pick<Console, "log" | "warn" | "error">;
+  private readonly controllers = new Map<string, AbortController>();
+
+  constructor(options: JobRunnerOptions) {
+    this.store = options.store;
+    this.pool = options.pool;
+    this.handler = options.handler;
+    this.isUrgent = options.isUrgent ?? (() => false);
+    this.onQueued = options.onQueued;
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Hand a persisted job to the worker pool
+   */
+  schedule(job: JobRecord): void {
+    if (this.isUrgent(job)) {
+      this.logger.log(`Running job ${job.id} immediately`);
+      this.run(job).catch((error) => this.logger.error(`Job ${job.id} failed:`, error));
+      return;
+    }
+
+    const position = this.pool.submit({
+      id: job.id,
+      group: String(job.payload.installation?.id ?? "none"),
+      key: job.payload.repository?.full_name ?? "unknown",
+      run: () => this.run(job),
+    });
+
+    if (position > 0) {
+      this.logger.log(`Queued job ${job.id} for ${job.event} at position ${position}`);
+      this.onQueued?.(job, position);
+    } else {
+      this.logger.log(`Started job ${job.id} for ${job.event}`);
+    }
+  }
+
+  /**
+   * Whether a job is waiting in the pool or running
+   */
+  isActive(id: string): boolean {
+    return this.pool.has(id) || this.controllers.has(id);
+  }
+
+  /**
+   * Cancel a queued or running job
+   * Queued jobs leave the pool; running jobs are aborted through their own
+   * controller. Either way the job is recorded as cancelled right away.
+   */
+  cancel(id: string): boolean {
+    const job = this.store.getJob(id);
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      return false;
+    }
+
+    if (!this.pool.remove(id)) {
+      this.controllers.get(id)?.abort();
+    }
+
+    this.store.markFailed(id, "Cancelled");
+    this.logger.log(`Cancelled job ${id}`);
+    return true;
+  }
+
+  /**
+   * Re-queue a failed job, once a cancelled run has wound down
+   */
+  retry(id: string): boolean {
+    const job = this.store.getJob(id);
+    if (!job || job.status !== "failed" || this.isActive(id)) {
+      return false;
+    }
+
+    this.logger.log(`Retrying job ${id}`);
+    this.schedule(this.store.enqueue(job.id, job.event, job.payload));
+    return true;
+  }
+
+  private async run(job: JobRecord): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+    this.store.markRunning(job.id);
+
+    try {
+      await this.handler(job, controller.signal);
+      // Leave jobs cancelled mid-run marked as failed
+      if (this.store.getJob(job.id)?.status === "running") {
+        this.store.markSucceeded(job.id);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        this.logger.error(`Error processing webhook job ${job.id}:`, error);
+        this.store.markFailed(job.id, error instanceof Error ? error.message : "Unknown error");
+      }
+    } finally {
+      this.controllers.delete(job.id);
+    }
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Durable webhook job store with disk persistence.
+ *
+ * Every accepted delivery is written to disk before it is processed so that
+ * queued or running work survives a restart or crash.
+ */
+
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import type { AgentProvider, GitHubWebhookPayload } from "../utils/types.js";
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+
+export interface JobRecord {
+  id: string;
+  event: string;
+  payload: GitHubWebhookPayload;
+  status: JobStatus;
+  createdAt: number;
+  updatedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  attempts: number;
+  error?: string;
+  /** Agent provider the last run used, once it has picked one */
+  provider?: AgentProvider;
+}
+
+/**
+ * Jobs found on disk at startup, split by what the server should do with them
+ */
+export interface RecoveredJobs {
+  /** Jobs that were accepted but never started - safe to run again */
+  queued: JobRecord[];
+  /** Jobs that were running when the process died - outcome unknown */
+  interrupted: JobRecord[];
+}
+
+interface JobStoreOptions {
+  dir: string;
+  retentionMs: number;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+export class JobStore {
+  private readonly dir: string;
+  private readonly retentionMs: number;
+  private readonly logger: Pick<Console, "log" | "warn" | "error">;
+  private jobs = new Map<string, JobRecord>();
+
+  constructor(options: JobStoreOptions) {
+    this.dir = options.dir;
+    this.retentionMs = options.retentionMs;
+    this.logger = options.logger ?? console;
+  }
+
+  initStorage(): void {
+    if (!existsSync(this.dir)) {
+      try {
+        mkdirSync(this.dir, { recursive: true });
+        chmodSync(this.dir, 0o700);
+      } catch {
+        this.logger.error(`Failed to create or chmod job directory: ${this.dir}`);
+      }
+    }
+  }
+
+  getJobFilePath(id: string): string {
+    return join(this.dir, `${this.toBase64Url(id)}.json`);
+  }
+
+  private toBase64Url(input: string): string {
+    return Buffer.from(input).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=/g, "");
+  }
+
+  /**
+   * Record a newly accepted delivery as queued
+   */
+  enqueue(id: string, event: string, payload: GitHubWebhookPayload): JobRecord {
+    const now = Date.now();
+    const previous = this.jobs.get(id);
+    const job: JobRecord = {
+      id,
+      event,
+      payload,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      attempts: previous ? previous.attempts : 0,
+    };
+    this.saveJob(job);
+    return job;
+  }
+
+  markRunning(id: string): JobRecord | undefined {
+    const now = Date.now();
+    return this.update(id, (job) => ({
+      ...job,
+      status: "running",
+      startedAt: now,
+      finishedAt: undefined,
+      error: undefined,
+      provider: undefined,
+      attempts: job.attempts + 1,
+    }));
+  }
+
+  /**
+   * Remember which agent provider a running job uses
+   */
+  recordProvider(id: string, provider: AgentProvider): JobRecord | undefined {
+    return this.update(id, (job) => ({ ...job, provider }));
+  }
+
+  markSucceeded(id: string): JobRecord | undefined {
+    return this.update(id, (job) => ({
+      ...job,
+      status: "succeeded",
+      finishedAt: Date.now(),
+    }));
+  }
+
+  markFailed(id: string, error: string): JobRecord | undefined {
+    return this.update(id, (job) => ({
+      ...job,
+      status: "failed",
+      finishedAt: Date.now(),
+      error,
+    }));
+  }
+
+  getJob(id: string): JobRecord | undefined {
+    return this.jobs.get(id);
+  }
+
+  listJobs(): JobRecord[] {
+    return Array.from(this.jobs.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  deleteJob(id: string): void {
+    this.jobs.delete(id);
+    this.deletePersistedFile(id);
+  }
+
+  /**
+   * Load persisted jobs and report which ones need recovery
+   */
+  loadAllPersistedJobs(): RecoveredJobs {
+    const recovered: RecoveredJobs = { queued: [], interrupted: [] };
+    this.initStorage();
+
+    try {
+      const files = readdirSync(this.dir);
+      for (const file of files) {
+        if (!file.endsWith(".json")) {
+          continue;
+        }
+        const filePath = join(this.dir, file);
+        try {
+          const job = JSON.parse(readFileSync(filePath, "utf-8")) as JobRecord;
+          if (this.isExpired(job)) {
+            unlinkSync(filePath);
+            continue;
+          }
+          this.jobs.set(job.id, job);
+          if (job.status === "queued") {
+            recovered.queued.push(job);
+          } else if (job.status === "running") {
+            recovered.interrupted.push(job);
+          }
+        } catch {
+          // Remove corrupted files
+          try {
+            unlinkSync(filePath);
+          } catch {
+            // ignore
+          }
+        }
+      }
+
+      recovered.queued.sort((a, b) => a.createdAt - b.createdAt);
+      recovered.interrupted.sort((a, b) => a.createdAt - b.createdAt);
+
+      if (this.jobs.size > 0) {
+        this.logger.log(
+          `Loaded ${this.jobs.size} persisted jobs (${recovered.queued.length} queued, ${recovered.interrupted.length} interrupted)`
+        );
+      }
+    } catch (error) {
+      this.logger.error("Failed to load persisted jobs:", error);
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Remove finished jobs older than the retention window
+   */
+  cleanupFinishedJobs(): void {
+    for (const job of this.jobs.values()) {
+      if (this.isExpired(job)) {
+        this.deleteJob(job.id);
+        this.logger.log(`Cleaned up finished job: ${job.id}`);
+      }
+    }
+  }
+
+  private isExpired(job: JobRecord): boolean {
+    if (job.status === "queued" || job.status === "running") {
+      return false;
+    }
+    return Date.now() - (job.finishedAt ?? job.updatedAt) > this.retentionMs;
+  }
+
+  private update(id: string, change: (job: JobRecord) => JobRecord): JobRecord | undefined {
+    const existing = this.jobs.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...change(existing), updatedAt: Date.now() };
+    this.saveJob(updated);
+    return updated;
+  }
+
+  private saveJob(job: JobRecord): void {
+    this.jobs.set(job.id, job);
+    this.persistJob(job);
+  }
+
+  private persistJob(job: JobRecord): void {
+    try {
+      this.initStorage();
+      const filePath = this.getJobFilePath(job.id);
+      const tempPath = `${filePath}.${Date.now()}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(job, null, 2), { mode: 0o600 });
+
+      try {
+        renameSync(tempPath, filePath);
+      } catch {
+        writeFileSync(filePath, readFileSync(tempPath), { mode: 0o600 });
+        unlinkSync(tempPath);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to persist job ${job.id}:`, error);
+    }
+  }
+
+  private deletePersistedFile(id: string): void {
+    try {
+      const filePath = this.getJobFilePath(id);
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
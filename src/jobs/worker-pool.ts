@@ -0,0 +1,215 @@
+/**
+ * Bounded worker pool with round-robin fairness.
+ *
+ * Tasks are grouped by installation and then by repository. Each time a
+ * worker frees up, the next installation in rotation gets a turn, and within
+ * it the next repository in rotation - so one busy installation (or one busy
+ * repository) cannot starve everyone else.
+ */
+
+export interface PoolTask {
+  id: string;
+  /** Outer fairness bucket (e.g. installation ID) */
+  group: string;
+  /** Inner fairness bucket (e.g. repository full name) */
+  key: string;
+  run: () => Promise<void>;
+}
+
+export interface WorkerPoolStatus {
+  concurrency: number;
+  running: number;
+  queued: number;
+}
+
+interface WorkerPoolOptions {
+  concurrency: number;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+/**
+ * Waiting tasks: group -> key -> FIFO queue.
+ * Map insertion order doubles as the rotation order.
+ */
+type PendingQueues = Map<string, Map<string, PoolTask[]>>;
+
+/**
+ * Take the next task in round-robin order and rotate the served buckets to the back
+ */
+function takeNext(pending: PendingQueues): PoolTask | undefined {
+  const first = pending.entries().next();
+  if (first.done) {
+    return undefined;
+  }
+
+  const [group, keys] = first.value;
+  const [key, queue] = keys.entries().next().value as [string, PoolTask[]];
+  const task = queue.shift();
+
+  keys.delete(key);
+  if (queue.length > 0) {
+    keys.set(key, queue);
+  }
+
+  pending.delete(group);
+  if (keys.size > 0) {
+    pending.set(group, keys);
+  }
+
+  return task;
+}
+
+function clonePending(pending: PendingQueues): PendingQueues {
+  const copy: PendingQueues = new Map();
+  for (const [group, keys] of pending) {
+    const keysCopy = new Map<string, PoolTask[]>();
+    for (const [key, queue] of keys) {
+      keysCopy.set(key, queue.slice());
+    }
+    copy.set(group, keysCopy);
+  }
+  return copy;
+}
+
+export class WorkerPool {
+  private readonly concurrency: number;
+  private readonly logger: Pick<Console, "log" | "warn" | "error">;
+  private pending: PendingQueues = new Map();
+  /** Waiting tasks by ID, for lookups that don't need the dispatch order */
+  private queued = new Map<string, PoolTask>();
+  private running = new Set<string>();
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(options: WorkerPoolOptions) {
+    this.concurrency = Math.max(1, options.concurrency);
+    this.logger = options.logger ?? console;
+  }
+
+  /**
+   * Submit a task. Returns its queue position (0 when it starts immediately).
+   */
+  submit(task: PoolTask): number {
+    if (this.has(task.id)) {
+      return this.getPosition(task.id) ?? 0;
+    }
+
+    const keys = this.pending.get(task.group) ?? new Map<string, PoolTask[]>();
+    const queue = keys.get(task.key) ?? [];
+    queue.push(task);
+    keys.set(task.key, queue);
+    this.pending.set(task.group, keys);
+    this.queued.set(task.id, task);
+
+    this.drain();
+    return this.getPosition(task.id) ?? 0;
+  }
+
+  /**
+   * 1-based position of a waiting task in dispatch order, 0 if running,
+   * undefined if unknown
+   */
+  getPosition(id: string): number | undefined {
+    if (this.running.has(id)) {
+      return 0;
+    }
+    if (!this.queued.has(id)) {
+      return undefined;
+    }
+    const index = this.getQueuedOrder().findIndex((task) => task.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Waiting tasks in the order they will be dispatched
+   */
+  getQueuedOrder(): PoolTask[] {
+    const simulated = clonePending(this.pending);
+    const order: PoolTask[] = [];
+    let task = takeNext(simulated);
+    while (task) {
+      order.push(task);
+      task = takeNext(simulated);
+    }
+    return order;
+  }
+
+  has(id: string): boolean {
+    return this.running.has(id) || this.queued.has(id);
+  }
+
+  isRunning(id: string): boolean {
+    return this.running.has(id);
+  }
+
+  /**
+   * Remove a task that has not started yet. Returns false if it is running or unknown.
+   */
+  remove(id: string): boolean {
+    const task = this.queued.get(id);
+    if (!task) {
+      return false;
+    }
+
+    const keys = this.pending.get(task.group);
+    const queue = keys?.get(task.key);
+    if (keys && queue) {
+      queue.splice(queue.indexOf(task), 1);
+      if (queue.length === 0) {
+        keys.delete(task.key);
+      }
+      if (keys.size === 0) {
+        this.pending.delete(task.group);
+      }
+    }
+    this.queued.delete(id);
+    return true;
+  }
+
+  getStatus(): WorkerPoolStatus {
+    return {
+      concurrency: this.concurrency,
+      running: this.running.size,
+      queued: this.queued.size,
+    };
+  }
+
+  /**
+   * Resolve once nothing is running or waiting
+   */
+  onIdle(): Promise<void> {
+    if (this.running.size === 0 && this.pending.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private drain(): void {
+    while (this.running.size < this.concurrency) {
+      const task = takeNext(this.pending);
+      if (!task) {
+        break;
+      }
+      this.start(task);
+    }
+
+    if (this.running.size === 0 && this.pending.size === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private start(task: PoolTask): void {
+    this.queued.delete(task.id);
+    this.running.add(task.id);
+    task
+      .run()
+      .catch((error) => {
+        this.logger.error(`Worker task ${task.id} failed:`, error);
+      })
+      .finally(() => {
+        this.running.delete(task.id);
+        this.drain();
+      });
+  }
+}
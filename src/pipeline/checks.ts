@@ -0,0 +1,322 @@
+/**
+ * CodeDuck - Repository checks
+ *
+ * Detects and runs a repository's own verification commands (npm test/lint
+ * scripts, `make test`, or a command configured for the repository) in the
+ * job workspace, and renders the results for the PR description and reply.
+ */
+
+import { spawn } from "child_process";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { findRepoEntry, getRuntimeConfig } from "../config/runtime-config.js";
+import { escapeHtml, fenceCode } from "../utils/markdown.js";
+
+/**
+ * Default time limit for a single check command
+ */
+const DEFAULT_CHECK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Only the tail of a check's output is kept (failures are usually at the end)
+ */
+const MAX_CHECK_OUTPUT = 4000;
+
+/**
+ * Output kept while a check runs, before it is cut down to the tail
+ */
+const MAX_COLLECTED_OUTPUT = 64 * 1024;
+
+/**
+ * Placeholder test script written by `npm init`
+ */
+const NPM_PLACEHOLDER_TEST = /no test specified/i;
+
+export interface CheckCommand {
+  /** Label shown in reports, e.g. "npm test" */
+  name: string;
+  file: string;
+  args: string[];
+}
+
+export interface CheckResult {
+  name: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  /** Tail of combined stdout/stderr */
+  output: string;
+}
+
+export interface CheckReport {
+  results: CheckResult[];
+  /** Number of repair runs the agent was given */
+  repairAttempts: number;
+}
+
+export interface RepoCheckConfig {
+  /** Shell command that replaces auto-detection */
+  command?: string;
+  /** Agent repair attempts after failing checks */
+  repairAttempts?: number;
+}
+
+interface RunCheckOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Per-repository overrides from REPO_CHECKS, e.g.
+ * {"owner/repo": {"command": "npm run ci", "repairAttempts": 2}}
+ */
+export function getRepoCheckConfig(
+  owner: string,
+  repo: string,
+  entries: Record<string, RepoCheckConfig> = getRuntimeConfig().checks.repos
+): RepoCheckConfig {
+  return findRepoEntry(entries, owner, repo) ?? {};
+}
+
+/**
+ * Number of repair attempts for a repository (REPO_CHECKS, then CHECK_REPAIR_ATTEMPTS)
+ */
+export function getRepairAttempts(
+  config: RepoCheckConfig,
+  fallback: number = getRuntimeConfig().checks.repairAttempts
+): number {
+  const value = config.repairAttempts ?? fallback;
+  return Number.isFinite(value) && value >= 0 ? Math.floor(value) : 1;
+}
+
+function readPackageScripts(dir: string): Record<string, string> | null {
+  const path = join(dir, "package.json");
+  if (!existsSync(path)) {
+    return null;
+  }
+  try {
+    const pkg = JSON.parse(readFileSync(path, "utf-8")) as { scripts?: Record<string, string> };
+    return pkg.scripts ?? {};
+  } catch {
+    return null;
+  }
+}
+
+function hasMakeTarget(dir: string, target: string): boolean {
+  const path = join(dir, "Makefile");
+  if (!existsSync(path)) {
+    return false;
+  }
+  return new RegExp(`^${target}\\s*:`, "m").test(readFileSync(path, "utf-8"));
+}
+
+/**
+ * Work out which checks to run in a workspace
+ * A configured command wins; otherwise npm scripts, then `make test`.
+ */
+export function detectCheckCommands(dir: string, configuredCommand?: string): CheckCommand[] {
+  if (configuredCommand?.trim()) {
+    return [{ name: configuredCommand.trim(), file: "sh", args: ["-c", configuredCommand] }];
+  }
+
+  const scripts = readPackageScripts(dir);
+  if (scripts) {
+    const commands: CheckCommand[] = [];
+    const hasTest = !!scripts.test && !NPM_PLACEHOLDER_TEST.test(scripts.test);
+    if (hasTest || scripts.lint) {
+      // Fresh worktrees have no dependencies installed
+      const install = existsSync(join(dir, "package-lock.json")) ? "ci" : "install";
+      commands.push({ name: `npm ${install}`, file: "npm", args: [install, "--no-audit", "--no-fund"] });
+    }
+    if (hasTest) {
+      commands.push({ name: "npm test", file: "npm", args: ["test"] });
+    }
+    if (scripts.lint) {
+      commands.push({ name: "npm run lint", file: "npm", args: ["run", "lint"] });
+    }
+    if (commands.length > 0) {
+      return commands;
+    }
+  }
+
+  if (hasMakeTarget(dir, "test")) {
+    return [{ name: "make test", file: "make", args: ["test"] }];
+  }
+
+  return [];
+}
+
+/**
+ * Environment for check commands: enough to build and test, but none of
+ * CodeDuck's own credentials
+ */
+function checkEnv(): NodeJS.ProcessEnv {
+  return {
+    PATH: process.env.PATH,
+    HOME: process.env.HOME,
+    TMPDIR: process.env.TMPDIR,
+    LANG: process.env.LANG,
+    CI: "1",
+  };
+}
+
+function tail(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_CHECK_OUTPUT ? `…${trimmed.slice(-MAX_CHECK_OUTPUT)}` : trimmed;
+}
+
+/**
+ * Kill a check and everything it started
+ * Checks run in their own process group, so test runners or servers spawned
+ * by npm or make don't outlive the check and keep using the worktree.
+ */
+function killProcessGroup(pid: number | undefined): void {
+  if (pid === undefined) {
+    return;
+  }
+  try {
+    process.kill(-pid, "SIGKILL");
+  } catch {
+    // The group has already exited
+  }
+}
+
+/**
+ * Run a single check command
+ */
+export function runCheck(dir: string, check: CheckCommand, options: RunCheckOptions = {}): Promise<CheckResult> {
+  const startedAt = Date.now();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_CHECK_TIMEOUT_MS;
+  const { signal } = options;
+
+  return new Promise((resolve) => {
+    let output = "";
+    let timedOut = false;
+    let settled = false;
+
+    const child = spawn(check.file, check.args, {
+      cwd: dir,
+      env: checkEnv(),
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    const kill = () => killProcessGroup(child.pid);
+    const timer = setTimeout(() => {
+      timedOut = true;
+      kill();
+    }, timeoutMs);
+    signal?.addEventListener("abort", kill, { once: true });
+    if (signal?.aborted) {
+      kill();
+    }
+
+    const collect = (chunk: Buffer) => {
+      output = `${output}${chunk.toString()}`.slice(-MAX_COLLECTED_OUTPUT);
+    };
+    child.stdout?.on("data", collect);
+    child.stderr?.on("data", collect);
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", kill);
+      const text = tail(output);
+      resolve({
+        name: check.name,
+        passed: exitCode === 0 && !timedOut && !signal?.aborted,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output: error && !text ? error.message : text,
+      });
+    };
+
+    // Whatever the check left behind goes once it exits
+    child.on("exit", kill);
+    child.on("close", (code) => finish(code));
+    child.on("error", (error) => finish(null, error));
+  });
+}
+
+/**
+ * Run checks in order, stopping at the first failure (later checks
+ * usually depend on earlier ones, like install before test)
+ */
+export async function runChecks(
+  dir: string,
+  checks: CheckCommand[],
+  options: RunCheckOptions = {}
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const check of checks) {
+    console.log(`[CHECKS] Running ${check.name} in ${dir}`);
+    const result = await runCheck(dir, check, options);
+    console.log(`[CHECKS] ${check.name} ${result.passed ? "passed" : "failed"} in ${result.durationMs}ms`);
+    results.push(result);
+    if (!result.passed) {
+      break;
+    }
+  }
+  return results;
+}
+
+export function checksPassed(results: CheckResult[]): boolean {
+  return results.every((result) => result.passed);
+}
+
+function describeResult(result: CheckResult): string {
+  if (result.passed) {
+    return `\`${result.name}\`: passed`;
+  }
+  const reason = result.timedOut ? "timed out" : `failed (exit code ${result.exitCode ?? "unknown"})`;
+  return `\`${result.name}\`: **${reason}**`;
+}
+
+/**
+ * Prompt that feeds failing checks back to the agent
+ */
+export function buildRepairPrompt(results: CheckResult[]): string {
+  const failed = results.filter((result) => !result.passed);
+  const details = failed
+    .map((result) => `${describeResult(result)}\n\n${fenceCode(result.output)}`)
+    .join("\n\n");
+
+  return `The repository's checks failed after your changes:
+
+${details}
+
+Fix the cause of these failures in the working tree. Do not disable, skip or delete tests or lint rules to make them pass.`;
+}
+
+/**
+ * Markdown section describing check results
+ */
+export function formatCheckReport(report: CheckReport): string {
+  if (report.results.length === 0) {
+    return "### Checks\n\nNo test or lint commands were found for this repository.";
+  }
+
+  const lines = ["### Checks", "", ...report.results.map((result) => `- ${describeResult(result)}`)];
+  if (report.repairAttempts > 0) {
+    const plural = report.repairAttempts === 1 ? "attempt" : "attempts";
+    lines.push("", `_After ${report.repairAttempts} repair ${plural}._`);
+  }
+
+  for (const result of report.results.filter((item) => !item.passed)) {
+    lines.push(
+      "",
+      "<details>",
+      `<summary>Output of <code>${escapeHtml(result.name)}</code></summary>`,
+      "",
+      fenceCode(result.output),
+      "",
+      "</details>"
+    );
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,487 @@
+/**
+ * CodeDuck - Write-mode pipeline
+ *
+ * Runs an implementation command end to end: let the agent make changes in
+ * the job workspace, commit the result locally and publish it as a single
+ * commit through the Git Data API (no local push) - either to a new
+ * codeduck/issue-N branch with a pull request, or as a follow-up commit on
+ * the head branch of the pull request the command came from. The repository's
+ * own checks run before anything is published, and failures can be fed back
+ * to the agent for a bounded number of repair attempts. Dry runs stop after
+ * the checks and hand back the patch instead of publishing it. Once the
+ * job's signal is aborted nothing more is published.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { executeSessionStreaming } from "../agent/client.js";
+import { cancelledResponse } from "../agent/providers/types.js";
+import {
+  branchExists,
+  commitChanges,
+  createPullRequest,
+  type FileChange,
+  type FileMode,
+  type PullRequestInfo,
+} from "../github/client.js";
+import type { ProgressState } from "../github/progress-comment.js";
+import {
+  buildRepairPrompt,
+  checksPassed,
+  detectCheckCommands,
+  formatCheckReport,
+  getRepairAttempts,
+  getRepoCheckConfig,
+  runChecks,
+  type CheckReport,
+  type RepoCheckConfig,
+} from "./checks.js";
+import type { JobWorkspace } from "../workspace/manager.js";
+import { commitIdentityArgs, readGitBlob, runGit } from "../workspace/git.js";
+import { fenceCode } from "../utils/markdown.js";
+import type { AgentResponse, GitHubContext, ParsedCommand } from "../utils/types.js";
+
+/**
+ * Keep commit subjects and PR titles readable
+ */
+const MAX_TITLE_LENGTH = 72;
+
+/**
+ * Cap on the agent summary copied into the PR description
+ */
+const MAX_PR_SUMMARY_LENGTH = 5000;
+
+/**
+ * Cap on the dry-run patch posted as a comment (GitHub allows 65,536 characters
+ * per comment, and the agent's answer shares it)
+ */
+const MAX_PATCH_LENGTH = 40_000;
+
+/**
+ * Where the pipeline publishes its commit
+ * - new-pr: push a fresh codeduck/issue-N branch and open a PR against baseBranch
+ * - existing-pr: push onto the head branch of an open PR
+ */
+export type PublishTarget =
+  | { kind: "new-pr"; baseBranch: string }
+  | { kind: "existing-pr"; pullRequest: PullRequestInfo };
+
+export interface WritePipelineOptions {
+  octokit: Octokit;
+  /** Worktree checked out at the commit the target builds on */
+  workspace: JobWorkspace;
+  target: PublishTarget;
+  context: GitHubContext;
+  parsed: ParsedCommand;
+  prompt: string;
+  /** Check settings from the repository's config file; REPO_CHECKS otherwise */
+  checks?: RepoCheckConfig;
+  /** Installation token handed to the agent for gh and git (never for dry runs) */
+  githubToken?: string;
+  signal?: AbortSignal;
+  onProgress?: (state: ProgressState) => void;
+}
+
+export interface WritePipelineResult {
+  /** Outcome of the agent run */
+  response: AgentResponse;
+  /** Set when changes were pushed */
+  branch?: string;
+  commitSha?: string;
+  pullRequestUrl?: string;
+  /** True when the commit was pushed onto an existing PR */
+  followUp?: boolean;
+  /** `git diff --stat` of the changes */
+  diffStat?: string;
+  /** Dry runs only: unified diff of the changes, which were not pushed */
+  patch?: string;
+  /** Results of the repository's checks on the final commit */
+  checks?: CheckReport;
+}
+
+/**
+ * Build a one-line title for the commit and PR
+ */
+export function buildChangeTitle(parsed: ParsedCommand): string {
+  const description = `${parsed.action} ${parsed.target}`.trim();
+  const title = `CodeDuck: ${description}`;
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title;
+}
+
+/**
+ * Build the pull request description
+ */
+export function buildPullRequestBody(
+  context: GitHubContext,
+  summary: string,
+  diffStat: string,
+  checks?: CheckReport
+): string {
+  const trimmedSummary = summary.length > MAX_PR_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_PR_SUMMARY_LENGTH)}\n\n_(summary truncated)_`
+    : summary;
+
+  return [
+    `Closes #${context.issueNumber}`,
+    "",
+    trimmedSummary.trim() || "_No summary provided by the agent._",
+    "",
+    ...(checks ? [formatCheckReport(checks), ""] : []),
+    "<details>",
+    "<summary>Changed files</summary>",
+    "",
+    "```",
+    diffStat.trim(),
+    "```",
+    "",
+    "</details>",
+    "",
+    "---",
+    `_Opened by CodeDuck from #${context.issueNumber}._`,
+  ].join("\n");
+}
+
+/**
+ * Pick a branch name that is not taken yet
+ */
+async function pickBranchName(octokit: Octokit, context: GitHubContext): Promise<string> {
+  const base = `codeduck/issue-${context.issueNumber}`;
+  if (!(await branchExists(octokit, context.owner, context.repo, base))) {
+    return base;
+  }
+  return `${base}-${Date.now().toString(36)}`;
+}
+
+/**
+ * Decide whether CodeDuck may push follow-up commits to a PR's head branch
+ * Returns a user-facing reason when it may not.
+ */
+export function checkPullRequestPushable(context: GitHubContext, pullRequest: PullRequestInfo): string | null {
+  if (pullRequest.state !== "open") {
+    return `Pull request #${pullRequest.number} is ${pullRequest.state}, so I won't push to it.`;
+  }
+
+  const baseRepo = `${context.owner}/${context.repo}`;
+  const headRepo = pullRequest.headRepoFullName;
+  if (!headRepo) {
+    return `The branch for pull request #${pullRequest.number} belongs to a fork that no longer exists.`;
+  }
+  if (headRepo.toLowerCase() === baseRepo.toLowerCase()) {
+    return null;
+  }
+
+  // Fork branches accept pushes from the base repository's apps only while
+  // the author allows edits from maintainers
+  if (!pullRequest.maintainerCanModify) {
+    return `The branch \`${pullRequest.headRef}\` lives in the fork \`${headRepo}\`, which does not allow edits from ` +
+      `maintainers, so CodeDuck cannot push to it. Enable "Allow edits from maintainers" on the pull request, or ` +
+      `ask me to make the change from an issue instead and I'll open a separate pull request.`;
+  }
+  return null;
+}
+
+/**
+ * Whether the committed tree differs from the commit the workspace started at
+ * (comparing trees, so commits that cancel each other out count as no change)
+ */
+async function hasChanges(workspace: JobWorkspace, signal?: AbortSignal): Promise<boolean> {
+  const names = await runGit(["diff", "--name-only", workspace.baseSha, "HEAD"], { cwd: workspace.dir, signal });
+  return names.trim().length > 0;
+}
+
+const SUPPORTED_MODES = new Set<string>(["100644", "100755", "120000"]);
+
+function toFileMode(mode: string, path: string): FileMode {
+  if (!SUPPORTED_MODES.has(mode)) {
+    throw new Error(`Cannot publish ${path}: unsupported file mode ${mode} (submodule changes are not supported)`);
+  }
+  return mode as FileMode;
+}
+
+/**
+ * Turn the commits between two revisions into a change set for the Git Data API
+ */
+export async function collectChanges(
+  dir: string,
+  fromSha: string,
+  toSha: string,
+  signal?: AbortSignal
+): Promise<FileChange[]> {
+  // -z output: ":<old mode> <new mode> <old sha> <new sha> <status>\0<path>\0[<new path>\0]"
+  const raw = await runGit(["diff", "--raw", "-z", "-M", "--no-abbrev", fromSha, toSha], { cwd: dir, signal });
+  const fields = raw.split("\0");
+  const changes: FileChange[] = [];
+
+  for (let i = 0; i < fields.length && fields[i].startsWith(":"); ) {
+    const [oldMode, newMode, , newSha, status] = fields[i].slice(1).split(" ");
+    const path = fields[i + 1];
+
+    if (status.startsWith("R")) {
+      const newPath = fields[i + 2];
+      const content = await readGitBlob(newSha, { cwd: dir, signal });
+      changes.push({
+        action: "rename",
+        previousPath: path,
+        previousMode: toFileMode(oldMode, path),
+        path: newPath,
+        content,
+        mode: toFileMode(newMode, newPath),
+      });
+      i += 3;
+      continue;
+    }
+
+    if (status === "D") {
+      changes.push({ action: "delete", path, mode: toFileMode(oldMode, path) });
+    } else {
+      const content = await readGitBlob(newSha, { cwd: dir, signal });
+      changes.push({ action: status === "A" ? "add" : "modify", path, content, mode: toFileMode(newMode, path) });
+    }
+    i += 2;
+  }
+
+  return changes;
+}
+
+/**
+ * Stage and commit anything the agent left uncommitted
+ */
+async function commitPendingChanges(workspace: JobWorkspace, title: string, context: GitHubContext, signal?: AbortSignal) {
+  await runGit(["add", "-A"], { cwd: workspace.dir, signal });
+  const status = await runGit(["status", "--porcelain"], { cwd: workspace.dir, signal });
+  if (!status.trim()) {
+    return;
+  }
+  await runGit(
+    [...commitIdentityArgs(), "commit", "-m", title, "-m", `Requested in #${context.issueNumber}.`],
+    { cwd: workspace.dir, signal }
+  );
+}
+
+/**
+ * Run the agent in the workspace, forwarding its progress
+ */
+async function runAgent(options: WritePipelineOptions, prompt: string): Promise<AgentResponse> {
+  const { workspace, context, parsed, githubToken, signal, onProgress } = options;
+
+  let response: AgentResponse = { success: false, result: "", error: "No result from agent" };
+  for await (const event of executeSessionStreaming(context, prompt, "write", parsed.provider, {
+    cwd: workspace.dir,
+    signal,
+    model: parsed.model,
+    // A dry run previews the change; the agent must not be able to push or open a PR itself
+    githubToken: parsed.dryRun ? undefined : githubToken,
+  })) {
+    if (event.type === "step") {
+      onProgress?.({ step: event.text });
+    } else if (event.type === "text") {
+      onProgress?.({ output: event.text });
+    } else {
+      response = event.response;
+    }
+  }
+  return response;
+}
+
+/**
+ * Run the repository's checks on the committed changes, letting the agent
+ * repair failures in the same session up to the configured number of times
+ */
+async function verifyChanges(
+  options: WritePipelineOptions
+): Promise<{ report: CheckReport; cancelled?: AgentResponse }> {
+  const { workspace, context, signal, onProgress } = options;
+  const config = options.checks ?? getRepoCheckConfig(context.owner, context.repo);
+  const commands = detectCheckCommands(workspace.dir, config.command);
+  if (commands.length === 0) {
+    return { report: { results: [], repairAttempts: 0 } };
+  }
+
+  const maxRepairs = getRepairAttempts(config);
+  const check = async () => {
+    onProgress?.({ step: `Running checks (${commands.map((command) => command.name).join(", ")})` });
+    const results = await runChecks(workspace.dir, commands, { signal });
+    // Checks killed by a stop are not worth cleaning up after
+    if (signal?.aborted) {
+      return results;
+    }
+    // Drop untracked build/test output so it is not committed with a repair
+    await runGit(["clean", "-fdq"], { cwd: workspace.dir, signal });
+    return results;
+  };
+
+  let results = await check();
+  let repairAttempts = 0;
+  while (!checksPassed(results) && repairAttempts < maxRepairs && !signal?.aborted) {
+    repairAttempts++;
+    onProgress?.({ step: `Checks failed, repair attempt ${repairAttempts} of ${maxRepairs}` });
+
+    const repair = await runAgent(options, buildRepairPrompt(results));
+    if (repair.cancelled) {
+      return { report: { results, repairAttempts }, cancelled: repair };
+    }
+    if (!repair.success) {
+      console.log(`[PIPELINE] Repair attempt ${repairAttempts} failed: ${repair.error}`);
+      break;
+    }
+
+    await workspace.checkQuota();
+    await commitPendingChanges(workspace, "CodeDuck: fix failing checks", context, signal);
+    results = await check();
+  }
+
+  return { report: { results, repairAttempts } };
+}
+
+/**
+ * Run a write-mode command and publish its changes as a pull request
+ */
+export async function runWritePipeline(options: WritePipelineOptions): Promise<WritePipelineResult> {
+  const { octokit, workspace, target, context, parsed, prompt, signal, onProgress } = options;
+  const { owner, repo } = context;
+
+  const response = await runAgent(options, prompt);
+  if (!response.success || response.cancelled) {
+    return { response };
+  }
+
+  // Refuse to publish runaway output (generated files, downloaded artifacts, ...)
+  await workspace.checkQuota();
+
+  onProgress?.({ step: "Committing changes" });
+  const title = buildChangeTitle(parsed);
+  await commitPendingChanges(workspace, title, context, signal);
+
+  if (!(await hasChanges(workspace, signal))) {
+    console.log(`[PIPELINE] No changes for ${owner}/${repo}#${context.issueNumber}`);
+    return { response };
+  }
+
+  const { report: checks, cancelled } = await verifyChanges(options);
+  if (cancelled) {
+    return { response: cancelled };
+  }
+  if (signal?.aborted) {
+    return { response: cancelledResponse(), checks };
+  }
+  // A repair may have undone everything
+  if (!(await hasChanges(workspace, signal))) {
+    return { response, checks };
+  }
+
+  const diffStat = await runGit(["diff", "--stat", workspace.baseSha, "HEAD"], { cwd: workspace.dir, signal });
+
+  if (parsed.dryRun) {
+    const patch = await runGit(["diff", workspace.baseSha, "HEAD"], { cwd: workspace.dir, signal });
+    console.log(`[PIPELINE] Dry run for ${owner}/${repo}#${context.issueNumber}, not pushing`);
+    return { response, diffStat, patch, checks };
+  }
+
+  const changes = await collectChanges(workspace.dir, workspace.baseSha, "HEAD", signal);
+  if (signal?.aborted) {
+    return { response: cancelledResponse(), checks };
+  }
+  const message = `${title}\n\nRequested in #${context.issueNumber}.`;
+
+  if (target.kind === "existing-pr") {
+    const { pullRequest } = target;
+    const [headOwner, headRepo] = (pullRequest.headRepoFullName ?? `${owner}/${repo}`).split("/");
+
+    onProgress?.({ step: `Committing to \`${pullRequest.headRef}\`` });
+    // Fast-forward only: fails rather than overwriting commits pushed while the agent ran
+    const commitSha = await commitChanges(octokit, headOwner, headRepo, {
+      branch: pullRequest.headRef,
+      parentSha: workspace.baseSha,
+      message,
+      changes,
+    });
+    console.log(`[PIPELINE] Pushed ${commitSha.slice(0, 7)} to ${pullRequest.headRef}`);
+
+    return { response, branch: pullRequest.headRef, commitSha, followUp: true, diffStat, checks };
+  }
+
+  const branch = await pickBranchName(octokit, context);
+
+  onProgress?.({ step: `Committing to \`${branch}\`` });
+  const commitSha = await commitChanges(octokit, owner, repo, {
+    branch,
+    parentSha: workspace.baseSha,
+    message,
+    changes,
+    createBranch: true,
+  });
+
+  // The branch stays behind, but a stopped job opens no pull request
+  if (signal?.aborted) {
+    console.log(`[PIPELINE] Stopped after committing ${commitSha.slice(0, 7)} to ${branch}, not opening a PR`);
+    return { response: cancelledResponse(), branch, commitSha, diffStat, checks };
+  }
+
+  onProgress?.({ step: "Opening pull request" });
+  const pullRequestUrl = await createPullRequest(
+    octokit,
+    owner,
+    repo,
+    title,
+    buildPullRequestBody(context, response.result, diffStat, checks),
+    branch,
+    target.baseBranch,
+    // Failing checks still get a PR, but as a draft so nobody merges it by accident
+    !checksPassed(checks.results)
+  );
+  console.log(`[PIPELINE] Opened ${pullRequestUrl}`);
+
+  return { response, branch, commitSha, pullRequestUrl, diffStat, checks };
+}
+
+/**
+ * Render a dry-run patch as a collapsible comment section with file stats
+ */
+export function formatPatch(diffStat: string, patch: string): string {
+  const statLines = diffStat.trimEnd().split("\n");
+  const totals = statLines[statLines.length - 1]?.trim() || "Changes";
+
+  let shown = patch.trimEnd();
+  let truncated = false;
+  if (shown.length > MAX_PATCH_LENGTH) {
+    const cut = shown.lastIndexOf("\n", MAX_PATCH_LENGTH);
+    shown = shown.slice(0, cut > 0 ? cut : MAX_PATCH_LENGTH);
+    truncated = true;
+  }
+
+  const lines = [
+    "Dry run: no branch or pull request was created.",
+    "",
+    "```",
+    diffStat.trimEnd(),
+    "```",
+    "",
+    "<details>",
+    `<summary>Patch (${totals})</summary>`,
+    "",
+    fenceCode(shown, "diff"),
+  ];
+  if (truncated) {
+    lines.push("", `_(patch truncated: showing ${shown.length} of ${patch.length} characters)_`);
+  }
+  lines.push("", "</details>");
+
+  return lines.join("\n");
+}
+
+/**
+ * Describe what the pipeline published, for the reply in the thread
+ */
+export function formatWriteSummary(result: WritePipelineResult): string {
+  const checks = result.checks ? `\n\n${formatCheckReport(result.checks)}` : "";
+
+  if (result.patch !== undefined) {
+    return `${formatPatch(result.diffStat ?? "", result.patch)}${checks}`;
+  }
+  if (result.followUp && result.commitSha) {
+    return `Pushed ${result.commitSha.slice(0, 7)} to \`${result.branch}\`.${checks}`;
+  }
+  if (result.pullRequestUrl) {
+    return `Opened pull request: ${result.pullRequestUrl} (branch \`${result.branch}\`)${checks}`;
+  }
+  return "No file changes were made, so no pull request was opened.";
+}
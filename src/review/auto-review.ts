@@ -0,0 +1,132 @@
+/**
+ * CodeDuck - Automatic pull request reviews
+ *
+ * Per-repository opt-in for a read-mode review when a pull request is
+ * opened, marked ready for review or updated with new commits, with
+ * filters on draft status, author, base branch, changed paths and diff size.
+ */
+
+import { findRepoEntry, getRuntimeConfig } from "../config/runtime-config.js";
+import type { PullRequestFile } from "../github/client.js";
+
+export type AutoReviewTrigger = "opened" | "ready_for_review" | "synchronize";
+
+export const AUTO_REVIEW_TRIGGERS: AutoReviewTrigger[] = ["opened", "ready_for_review", "synchronize"];
+
+export interface AutoReviewConfig {
+  /** Pull request actions that start a review (default: all triggers) */
+  events?: AutoReviewTrigger[];
+  /** Review draft pull requests too (default: false) */
+  includeDrafts?: boolean;
+  /** Only review pull requests from these authors */
+  authors?: string[];
+  /** Never review pull requests from these authors */
+  ignoreAuthors?: string[];
+  /** Only review pull requests into these base branches */
+  baseBranches?: string[];
+  /** Only review when a changed file matches one of these globs */
+  paths?: string[];
+  /** Files matching these globs do not count as changes */
+  ignorePaths?: string[];
+  /** Skip pull requests with more changed lines (additions plus deletions) */
+  maxDiffLines?: number;
+}
+
+export interface AutoReviewCandidate {
+  action: string;
+  draft: boolean;
+  author: string | null;
+  baseRef: string;
+}
+
+/**
+ * Per-repository settings from AUTO_REVIEW, e.g.
+ * {"owner/repo": {"events": ["opened"], "baseBranches": ["main"], "maxDiffLines": 2000}}
+ * Repositories without an entry are not reviewed automatically.
+ */
+export function getAutoReviewConfig(
+  owner: string,
+  repo: string,
+  entries: Record<string, AutoReviewConfig> = getRuntimeConfig().review.autoReview
+): AutoReviewConfig | null {
+  return findRepoEntry(entries, owner, repo);
+}
+
+function includesLogin(logins: string[], login: string | null): boolean {
+  return login !== null && logins.some((name) => name.toLowerCase() === login.toLowerCase());
+}
+
+/**
+ * Glob for changed paths: `**` crosses directories, `*` and `?` do not
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directory at all
+      pattern += glob[i + 2] === "/" ? "(?:.*/)?" : ".*";
+      i += glob[i + 2] === "/" ? 2 : 1;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesAny(globs: string[], path: string): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(path));
+}
+
+/**
+ * Why a pull request event should not be reviewed, judged from the event
+ * alone (before fetching the diff); null when it passes
+ */
+export function getAutoReviewSkipReason(config: AutoReviewConfig, candidate: AutoReviewCandidate): string | null {
+  const events = config.events ?? AUTO_REVIEW_TRIGGERS;
+  if (!events.includes(candidate.action as AutoReviewTrigger)) {
+    return `action "${candidate.action}" is not enabled`;
+  }
+  if (candidate.draft && !config.includeDrafts) {
+    return "pull request is a draft";
+  }
+  if (config.authors && !includesLogin(config.authors, candidate.author)) {
+    return `author ${candidate.author ?? "unknown"} is not in the allow-list`;
+  }
+  if (config.ignoreAuthors && includesLogin(config.ignoreAuthors, candidate.author)) {
+    return `author ${candidate.author} is ignored`;
+  }
+  if (config.baseBranches && !config.baseBranches.includes(candidate.baseRef)) {
+    return `base branch ${candidate.baseRef} is not reviewed`;
+  }
+  return null;
+}
+
+/**
+ * Why a pull request's changes should not be reviewed (path filters and
+ * diff size); null when they pass
+ */
+export function getDiffSkipReason(config: AutoReviewConfig, files: PullRequestFile[]): string | null {
+  if (files.length === 0) {
+    return "no files changed";
+  }
+  const relevant = config.ignorePaths
+    ? files.filter((file) => !matchesAny(config.ignorePaths ?? [], file.filename))
+    : files;
+  if (relevant.length === 0) {
+    return "only ignored paths changed";
+  }
+  if (config.paths && !relevant.some((file) => matchesAny(config.paths ?? [], file.filename))) {
+    return "no changed file matches the configured paths";
+  }
+
+  const changedLines = relevant.reduce((total, file) => total + file.additions + file.deletions, 0);
+  if (config.maxDiffLines !== undefined && changedLines > config.maxDiffLines) {
+    return `diff has ${changedLines} changed lines (limit ${config.maxDiffLines})`;
+  }
+  return null;
+}
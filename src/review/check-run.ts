@@ -0,0 +1,101 @@
+/**
+ * CodeDuck - Review check runs
+ *
+ * Publishes a review's findings as a check run on the reviewed commit, so
+ * branch protection can gate merges on CodeDuck: the conclusion follows the
+ * most severe finding and every finding on the PR's diff becomes a file/line
+ * annotation (the rest are listed in the summary, as in the review body).
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { getRuntimeConfig } from "../config/runtime-config.js";
+import {
+  createCheckRun,
+  type CheckAnnotation,
+  type CheckConclusion,
+  type PullRequestFile,
+} from "../github/client.js";
+import { getCommentableLines, isFindingOnDiff } from "./pr-review.js";
+import type { GitHubContext, ReviewFinding, ReviewSeverity } from "../utils/types.js";
+
+/**
+ * Name the check appears under in the PR's checks list
+ */
+export const REVIEW_CHECK_NAME = "CodeDuck Review";
+
+/**
+ * GitHub caps a check run summary at 65,535 characters
+ */
+const MAX_SUMMARY_LENGTH = 60_000;
+
+const ANNOTATION_LEVELS: Record<ReviewSeverity, CheckAnnotation["level"]> = {
+  critical: "failure",
+  major: "failure",
+  minor: "warning",
+  nit: "notice",
+};
+
+/**
+ * Whether review check runs are enabled (REVIEW_CHECK_RUNS=true)
+ */
+export function isReviewCheckRunEnabled(): boolean {
+  return getRuntimeConfig().review.checkRuns;
+}
+
+/**
+ * Failure for critical or major findings, neutral for minor ones and nits,
+ * success when there are none
+ */
+export function getCheckConclusion(findings: ReviewFinding[]): CheckConclusion {
+  if (findings.some((finding) => ANNOTATION_LEVELS[finding.severity] === "failure")) {
+    return "failure";
+  }
+  return findings.length > 0 ? "neutral" : "success";
+}
+
+/**
+ * Annotations for the findings on lines the PR changed; like inline review
+ * comments, findings elsewhere are left out
+ */
+export function buildCheckAnnotations(findings: ReviewFinding[], files: PullRequestFile[]): CheckAnnotation[] {
+  const commentable = new Map(files.map((file) => [file.filename, getCommentableLines(file.patch ?? "")]));
+  return findings.filter((finding) => isFindingOnDiff(finding, commentable)).map((finding) => ({
+    path: finding.path,
+    startLine: finding.startLine ?? finding.line,
+    endLine: finding.line,
+    level: ANNOTATION_LEVELS[finding.severity],
+    title: finding.severity,
+    message: finding.message,
+  }));
+}
+
+/**
+ * Publish review findings as a check run on the reviewed commit,
+ * returning the run's URL
+ */
+export async function publishReviewCheckRun(
+  octokit: Octokit,
+  context: GitHubContext,
+  headSha: string,
+  files: PullRequestFile[],
+  findings: ReviewFinding[],
+  summary: string
+): Promise<string> {
+  const conclusion = getCheckConclusion(findings);
+  const title = findings.length === 0
+    ? "No issues found"
+    : findings.length === 1 ? "1 finding" : `${findings.length} findings`;
+
+  const url = await createCheckRun(octokit, context.owner, context.repo, {
+    name: REVIEW_CHECK_NAME,
+    headSha,
+    conclusion,
+    title,
+    summary: summary.length > MAX_SUMMARY_LENGTH ? `${summary.slice(0, MAX_SUMMARY_LENGTH)}\n\n_(truncated)_` : summary,
+    annotations: buildCheckAnnotations(findings, files),
+  });
+  console.log(
+    `[REVIEW] Published check run (${conclusion}) on ${context.owner}/${context.repo}@${headSha.slice(0, 7)}`
+  );
+  return url;
+}
@@ -0,0 +1,375 @@
+/**
+ * CodeDuck - Pull request reviews
+ *
+ * Asks the agent for structured findings instead of free-form markdown and
+ * turns them into a GitHub review: inline comments anchored to changed
+ * lines, ```suggestion blocks for replacements, and a summary body.
+ * Repeat reviews look only at the commits pushed since the last one.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { compareCommits, createReview, type PullRequestFile, type ReviewComment } from "../github/client.js";
+import {
+  buildUnifiedDiff,
+  formatPullRequestContext,
+  type PullRequestContext,
+} from "../github/pull-request-context.js";
+import { fenceCode } from "../utils/markdown.js";
+import type { GitHubContext, ReviewFinding, ReviewSeverity } from "../utils/types.js";
+
+const SEVERITIES: ReviewSeverity[] = ["critical", "major", "minor", "nit"];
+
+export interface StructuredReview {
+  summary: string;
+  findings: ReviewFinding[];
+  /** Numbers (1-based) of earlier findings the new commits resolve */
+  resolved?: number[];
+}
+
+/**
+ * What changed since the previous review of a pull request
+ */
+export interface ReviewIncrement {
+  previousHeadSha: string;
+  commits: { sha: string; message: string }[];
+  files: PullRequestFile[];
+  /** Unified diff of the new commits, possibly cut to fit the limits */
+  diff: string;
+  omittedFiles: string[];
+  /** Findings still open after the previous review */
+  previousFindings: ReviewFinding[];
+}
+
+/**
+ * Fence the agent is asked to put its findings in
+ */
+const REVIEW_FENCE = "codeduck-review";
+
+/**
+ * Fetch the commits and changes pushed since a previous review
+ * Returns null when they cannot be reviewed on their own (the branch was
+ * rewritten, or the old head is gone), so the whole PR is reviewed instead.
+ */
+export async function fetchReviewIncrement(
+  octokit: Octokit,
+  context: GitHubContext,
+  previous: { headSha: string; findings: ReviewFinding[] },
+  headSha: string
+): Promise<ReviewIncrement | null> {
+  try {
+    const comparison = await compareCommits(octokit, context.owner, context.repo, previous.headSha, headSha);
+    if (comparison.status !== "ahead") {
+      console.log(`[REVIEW] ${previous.headSha.slice(0, 7)}...${headSha.slice(0, 7)} is ${comparison.status}, reviewing the whole PR`);
+      return null;
+    }
+    return {
+      previousHeadSha: previous.headSha,
+      commits: comparison.commits,
+      files: comparison.files,
+      ...buildUnifiedDiff(comparison.files),
+      previousFindings: previous.findings,
+    };
+  } catch (error) {
+    console.log(`[REVIEW] Could not compare with the last reviewed commit, reviewing the whole PR: ${error}`);
+    return null;
+  }
+}
+
+function formatIncrement(pullRequest: PullRequestContext, increment: ReviewIncrement): string {
+  const commits = increment.commits.map((commit) => `- ${commit.sha.slice(0, 7)} ${commit.message.split("\n")[0]}`);
+  const previous = increment.previousFindings.map(
+    (finding, index) => `${index + 1}. ${formatLocation(finding)} ${finding.severity}: ${finding.message}`
+  );
+
+  return [
+    `You reviewed this pull request before, at commit ${increment.previousHeadSha.slice(0, 7)}. ` +
+      `Only review what the ${increment.commits.length} commit(s) pushed since then change; ` +
+      "the changed files and diff below cover just those commits.",
+    "",
+    "New commits:",
+    commits.join("\n"),
+    "",
+    formatPullRequestContext({
+      ...pullRequest,
+      files: increment.files,
+      diff: increment.diff,
+      omittedFiles: increment.omittedFiles,
+    }),
+    "",
+    "Findings from your previous review that were still open:",
+    previous.join("\n") || "(none)",
+  ].join("\n");
+}
+
+/**
+ * Build the prompt for reviewing a pull request, or only its newer commits
+ * when an increment is given, optionally with the PR's discussion
+ */
+export function buildReviewPrompt(
+  context: GitHubContext,
+  target: string,
+  pullRequest: PullRequestContext,
+  increment?: ReviewIncrement | null,
+  history?: string
+): string {
+  return `You are reviewing pull request #${context.issueNumber} in ${context.owner}/${context.repo}.
+The pull request's head is checked out in your working directory.${target ? `\n\nReviewer's request: ${target}` : ""}
+
+${increment ? formatIncrement(pullRequest, increment) : formatPullRequestContext(pullRequest)}${history ? `\n\n${history}` : ""}
+
+Focus on:
+- Potential bugs or issues
+- Security concerns
+- Performance considerations
+- Code quality and readability
+
+Only report findings on lines this pull request changes, using line numbers in the new version of the file.
+
+Finish your answer with exactly one fenced block in this format:
+
+\`\`\`${REVIEW_FENCE}
+{
+  "summary": "Overall assessment in a few sentences (markdown allowed)",
+  "findings": [
+    {
+      "path": "src/example.ts",
+      "startLine": 10,
+      "line": 12,
+      "severity": "major",
+      "message": "What is wrong and why",
+      "suggestion": "optional replacement for lines 10-12, exactly as it should appear"
+    }
+  ]${increment ? `,\n  "resolved": [1]` : ""}
+}
+\`\`\`
+
+severity is one of: ${SEVERITIES.join(", ")}. Omit startLine for single-line findings and omit suggestion when you have no concrete replacement.${increment
+  ? "\nList in resolved the numbers of previous findings the new commits fix, and do not report those that are still open again."
+  : ""}`;
+}
+
+function toLine(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+function toFinding(value: unknown): ReviewFinding | null {
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+  const line = toLine(raw.line);
+  if (typeof raw.path !== "string" || !raw.path || line === undefined || typeof raw.message !== "string") {
+    return null;
+  }
+
+  const startLine = toLine(raw.startLine);
+  const severity = SEVERITIES.includes(raw.severity as ReviewSeverity) ? (raw.severity as ReviewSeverity) : "minor";
+
+  return {
+    path: raw.path.replace(/^\.?\//, ""),
+    ...(startLine !== undefined && startLine < line ? { startLine } : {}),
+    line,
+    severity,
+    message: raw.message.trim(),
+    ...(typeof raw.suggestion === "string" ? { suggestion: raw.suggestion.replace(/\n$/, "") } : {}),
+  };
+}
+
+/**
+ * Extract the structured review from the agent's answer
+ * Returns null when the answer has no parseable review block.
+ */
+export function parseReviewOutput(text: string): StructuredReview | null {
+  const blocks = [...text.matchAll(new RegExp("```" + REVIEW_FENCE + "\\s*\\n([\\s\\S]*?)\\n```", "g"))];
+  const block = blocks[blocks.length - 1];
+  if (!block) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(block[1]);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return null;
+  }
+
+  const raw = parsed as { summary?: unknown; findings?: unknown; resolved?: unknown };
+  const findings = Array.isArray(raw.findings)
+    ? raw.findings.map(toFinding).filter((finding): finding is ReviewFinding => finding !== null)
+    : [];
+
+  // Anything the agent wrote outside the block is a fallback summary
+  const prose = text.slice(0, block.index).trim();
+  const summary = typeof raw.summary === "string" && raw.summary.trim() ? raw.summary.trim() : prose;
+
+  if (!Array.isArray(raw.resolved)) {
+    return { summary, findings };
+  }
+  const resolved = raw.resolved.map(toLine).filter((number): number is number => number !== undefined);
+  return { summary, findings, resolved };
+}
+
+/**
+ * Earlier findings the review marks as resolved
+ */
+export function getResolvedFindings(review: StructuredReview, increment?: ReviewIncrement | null): ReviewFinding[] {
+  if (!increment) {
+    return [];
+  }
+  const resolved = new Set(review.resolved ?? []);
+  return increment.previousFindings.filter((_, index) => resolved.has(index + 1));
+}
+
+/**
+ * Findings still open after a review: unresolved earlier ones plus the new ones
+ */
+export function getOpenFindings(review: StructuredReview, increment?: ReviewIncrement | null): ReviewFinding[] {
+  if (!increment) {
+    return review.findings;
+  }
+  const resolved = new Set(review.resolved ?? []);
+  const stillOpen = increment.previousFindings.filter((_, index) => !resolved.has(index + 1));
+  return [...stillOpen, ...review.findings];
+}
+
+/**
+ * Line numbers (new file) a review comment can be attached to:
+ * added and context lines inside the patch hunks
+ */
+export function getCommentableLines(patch: string): Set<number> {
+  const lines = new Set<number>();
+  let newLine = 0;
+  let inHunk = false;
+
+  for (const row of patch.split("\n")) {
+    const header = row.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      newLine = parseInt(header[1], 10);
+      inHunk = true;
+      continue;
+    }
+    // Only "+" added and " " context lines exist in the new file
+    if (!inHunk || !(row.startsWith("+") || row.startsWith(" "))) {
+      continue;
+    }
+    lines.add(newLine);
+    newLine++;
+  }
+  return lines;
+}
+
+/**
+ * Whether every line of a finding can be commented on, given the
+ * commentable lines of each changed file
+ */
+export function isFindingOnDiff(finding: ReviewFinding, commentable: Map<string, Set<number>>): boolean {
+  const lines = commentable.get(finding.path);
+  if (!lines) {
+    return false;
+  }
+  for (let line = finding.startLine ?? finding.line; line <= finding.line; line++) {
+    if (!lines.has(line)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function formatFindingBody(finding: ReviewFinding): string {
+  const parts = [`**${finding.severity}:** ${finding.message}`];
+  if (finding.suggestion !== undefined) {
+    parts.push(fenceCode(finding.suggestion, "suggestion"));
+  }
+  return parts.join("\n\n");
+}
+
+function formatLocation(finding: ReviewFinding): string {
+  const range = finding.startLine !== undefined ? `${finding.startLine}-${finding.line}` : `${finding.line}`;
+  return `\`${finding.path}:${range}\``;
+}
+
+function formatListedFinding(finding: ReviewFinding): string {
+  return `- ${formatLocation(finding)} **${finding.severity}:** ${finding.message}`;
+}
+
+/**
+ * Split findings into inline comments and ones that cannot be anchored
+ * (files or lines outside the diff), which go into the review body instead
+ */
+export function buildReviewSubmission(
+  review: StructuredReview,
+  files: PullRequestFile[],
+  increment?: ReviewIncrement | null
+): { body: string; comments: ReviewComment[] } {
+  const commentable = new Map(files.map((file) => [file.filename, getCommentableLines(file.patch ?? "")]));
+  const comments: ReviewComment[] = [];
+  const unanchored: ReviewFinding[] = [];
+
+  for (const finding of review.findings) {
+    if (isFindingOnDiff(finding, commentable)) {
+      comments.push({
+        path: finding.path,
+        line: finding.line,
+        ...(finding.startLine !== undefined ? { startLine: finding.startLine } : {}),
+        body: formatFindingBody(finding),
+      });
+    } else {
+      unanchored.push(finding);
+    }
+  }
+
+  const counts = SEVERITIES
+    .map((severity) => [severity, review.findings.filter((finding) => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+
+  const sections = [review.summary || "_No summary provided._"];
+  if (increment) {
+    sections.push(
+      `_Reviewed ${increment.commits.length} new commit(s) since \`${increment.previousHeadSha.slice(0, 7)}\`._`
+    );
+  }
+  sections.push(counts.length > 0 ? `**Findings:** ${counts.join(", ")}` : "No issues found.");
+  if (unanchored.length > 0) {
+    sections.push("**Findings outside the changed lines:**\n\n" + unanchored.map(formatListedFinding).join("\n"));
+  }
+
+  const resolved = getResolvedFindings(review, increment);
+  if (resolved.length > 0) {
+    sections.push("**Resolved since the last review:**\n\n" + resolved.map(formatListedFinding).join("\n"));
+  }
+  const stillOpen = increment ? increment.previousFindings.length - resolved.length : 0;
+  if (stillOpen > 0) {
+    sections.push(`_${stillOpen} finding(s) from the last review still look open._`);
+  }
+  sections.push("---\n_Review by CodeDuck._");
+
+  return { body: sections.join("\n\n"), comments };
+}
+
+/**
+ * Submit a structured review on a pull request, returning the review URL
+ */
+export async function submitReview(
+  octokit: Octokit,
+  context: GitHubContext,
+  commitId: string,
+  files: PullRequestFile[],
+  review: StructuredReview,
+  increment?: ReviewIncrement | null
+): Promise<{ url: string; body: string; inlineComments: number }> {
+  const { body, comments } = buildReviewSubmission(review, files, increment);
+  // Anchored to the commit that was reviewed, not whatever was pushed since
+  const url = await createReview(octokit, context.owner, context.repo, context.issueNumber, {
+    commitId,
+    body,
+    comments,
+  });
+  console.log(
+    `[REVIEW] Submitted review on ${context.owner}/${context.repo}#${context.issueNumber} with ${comments.length} inline comment(s)`
+  );
+  return { url, body, inlineComments: comments.length };
+}
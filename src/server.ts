@@ -6,62 +6,169 @@
  */
 
 import express, { Request, Response, NextFunction } from "express";
-import dotenv from "dotenv";
 
-import { postComment, isCollaborator, isOwner } from "./github/client.js";
 import {
-  getAuthOctokit,
-  isGitHubAppConfigured,
-  checkPartialAppConfig,
-} from "./github/app.js";
-import { isStopCommand, parseCommand } from "./commands/parser.js";
-import { executeSessionQuery, clearSession } from "./agent/client.js";
-import { GitHubContext, CommandMode, GitHubWebhookPayload } from "./utils/types.js";
+  postComment,
+  getDefaultBranch,
+  listRepoLabels,
+  listReviewThread,
+  replyToReviewComment,
+} from "./github/client.js";
+import {
+  fetchPullRequestContext,
+  formatPullRequestContext,
+  formatReviewThread,
+  type PullRequestContext,
+} from "./github/pull-request-context.js";
+import { fetchIssueHistory, formatIssueHistory } from "./github/issue-context.js";
+import {
+  authorizeCommand,
+  formatDenial,
+  invalidatePermissions,
+  shouldExplainDenial,
+} from "./github/authorization.js";
+import { ProgressComment } from "./github/progress-comment.js";
+import {
+  runWritePipeline,
+  formatWriteSummary,
+  checkPullRequestPushable,
+  type PublishTarget,
+} from "./pipeline/write-pipeline.js";
+import { createWorkspaceManager, type WorkspaceManager } from "./workspace/manager.js";
+import {
+  buildReviewPrompt,
+  fetchReviewIncrement,
+  getOpenFindings,
+  parseReviewOutput,
+  submitReview,
+  type ReviewIncrement,
+} from "./review/pr-review.js";
+import {
+  applyTriageLabels,
+  buildTriagePrompt,
+  findDuplicateCandidates,
+  formatTriageComment,
+  parseTriageOutput,
+  type IssueTriageConfig,
+} from "./triage/issue-triage.js";
+import { isReviewCheckRunEnabled, publishReviewCheckRun } from "./review/check-run.js";
+import {
+  AUTO_REVIEW_TRIGGERS,
+  getAutoReviewSkipReason,
+  getDiffSkipReason,
+  type AutoReviewConfig,
+} from "./review/auto-review.js";
+import { getAuthOctokit, invalidateInstallationToken, isGitHubAppConfigured, mintJobToken } from "./github/app.js";
+import {
+  formatStartupReport,
+  getProviderStatus,
+  getRuntimeConfig,
+  loadRuntimeConfig,
+  setRuntimeConfig,
+  type RuntimeConfig,
+} from "./config/runtime-config.js";
+import { resolveProviderId } from "./agent/providers/registry.js";
+import { isConfigCommand, isStopCommand, parseCommand } from "./commands/parser.js";
+import {
+  formatConfigErrors,
+  formatEffectiveConfig,
+  invalidateRepoConfig,
+  isCommandEnabled,
+  loadRepoConfig,
+  REPO_CONFIG_PATH,
+  type RepoConfig,
+} from "./config/repo-config.js";
+import {
+  executeSessionQuery,
+  executeSessionStreaming,
+  clearSession,
+  cancelSession,
+  listSessions,
+  getSessionInfo,
+  initSessions,
+  recordReview,
+} from "./agent/client.js";
+import {
+  GitHubContext,
+  CommandMode,
+  GitHubWebhookPayload,
+  AgentResponse,
+  ReviewThreadRef,
+} from "./utils/types.js";
 import { parseWebhookPayload, verifyWebhookSignature } from "./utils/webhook.js";
-
-dotenv.config();
+import { paginateMarkdown } from "./utils/markdown.js";
+import { JobStore, type JobRecord } from "./jobs/job-store.js";
+import { WorkerPool } from "./jobs/worker-pool.js";
+import { JobRunner } from "./jobs/job-runner.js";
+import { createAdminRouter } from "./admin/routes.js";
 
 export const app = express();
-const PORT = process.env.PORT || 3000;
 
-// Job queue for async webhook processing
-interface WebhookJob {
-  id: string;
-  event: string;
-  payload: GitHubWebhookPayload;
-  createdAt: number;
+// Finished job records are kept for 7 days
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Durable job store for async webhook processing
+let jobStore: JobStore;
+
+// Worker pool that schedules jobs round-robin across installations and repositories,
+// capped globally since each job may spawn an agent subprocess
+let workerPool: WorkerPool;
+
+// Runs jobs on the pool, each with its own abort controller
+let jobRunner: JobRunner;
+
+// Isolated checkouts for jobs
+let workspaceManager: WorkspaceManager;
+
+// Matches @codeduck mentions in comment bodies
+const MENTION_PATTERN = /@codeduck(?:\[[a-z]+\])?(?![\w-])/gi;
+
+/**
+ * Check for a @codeduck mention without touching the global pattern's lastIndex
+ */
+function mentionsCodeDuck(body: string): boolean {
+  return new RegExp(MENTION_PATTERN.source, "i").test(body);
 }
-const jobQueue: Map<string, WebhookJob> = new Map();
-const processingJobs: Set<string> = new Set();
+
+// Events whose comments can carry @codeduck commands
+const COMMAND_EVENTS = ["issue_comment", "pull_request_review_comment"];
+
+/**
+ * Webhook actions worth queueing a job for, per event
+ */
+const HANDLED_ACTIONS: Record<string, string[]> = {
+  issue_comment: ["created"],
+  pull_request_review_comment: ["created"],
+  issues: ["opened"],
+  pull_request: AUTO_REVIEW_TRIGGERS,
+};
+
+// Events that only invalidate cached tokens, permissions and config; handled inline
+const CACHE_EVENTS = ["member", "installation", "installation_repositories", "push"];
 
 // Deduplication window: 5 seconds
 const DEDUP_WINDOW_MS = 5000;
 
 /**
- * Process webhook job asynchronously
+ * Process a webhook job; the signal is aborted when the job is cancelled
  */
-async function processWebhookJob(job: WebhookJob): Promise<void> {
+async function processWebhookJob(job: JobRecord, signal: AbortSignal): Promise<void> {
   const { event, payload } = job;
-
-  try {
-    switch (event) {
-      case "issue_comment":
-        await handleIssueComment(payload);
-        break;
-      case "issues":
-        await handleIssueOpened(payload);
-        break;
-      case "pull_request":
-        await handlePROpened(payload);
-        break;
-      default:
-        console.log(`Ignoring event: ${event}`);
-    }
-  } catch (error) {
-    console.error(`Error processing webhook job ${job.id}:`, error);
-  } finally {
-    processingJobs.delete(job.id);
-    jobQueue.delete(job.id);
+  switch (event) {
+    case "issue_comment":
+      await handleIssueComment(payload, job.id, signal);
+      break;
+    case "pull_request_review_comment":
+      await handleReviewComment(payload, job.id, signal);
+      break;
+    case "issues":
+      await handleIssueOpened(payload, job.id, signal);
+      break;
+    case "pull_request":
+      await handlePullRequest(payload, job.id, signal);
+      break;
+    default:
+      console.log(`Ignoring event: ${event}`);
   }
 }
 
@@ -71,35 +178,175 @@ async function processWebhookJob(job: WebhookJob): Promise<void> {
 function enqueueJob(event: string, payload: GitHubWebhookPayload, deliveryId: string): void {
   const now = Date.now();
   const jobId = `${deliveryId}`;
+  const existingJob = jobStore.getJob(jobId);
 
-  // Check if already processing this delivery
-  if (processingJobs.has(jobId)) {
-    console.log(`Job ${jobId} already processing, skipping`);
+  // Check if already queued or processing this delivery
+  if (existingJob && (existingJob.status === "queued" || existingJob.status === "running")) {
+    console.log(`Job ${jobId} already ${existingJob.status}, skipping`);
     return;
   }
 
   // Check for recent duplicate
-  const existingJob = jobQueue.get(jobId);
   if (existingJob && (now - existingJob.createdAt) < DEDUP_WINDOW_MS) {
     console.log(`Recent duplicate ${jobId} detected, skipping`);
     return;
   }
 
-  // Add new job
-  const job: WebhookJob = {
-    id: jobId,
-    event,
-    payload,
-    createdAt: now,
-  };
-  jobQueue.set(jobId, job);
-  processingJobs.add(jobId);
+  // Persist before processing so the job survives a restart
+  const job = jobStore.enqueue(jobId, event, payload);
+  jobRunner.schedule(job);
+}
+
+/**
+ * Check whether a job is a "@codeduck stop" request
+ */
+function isStopJob(job: JobRecord): boolean {
+  const body = job.payload.comment?.body;
+  if (!COMMAND_EVENTS.includes(job.event) || !body || !mentionsCodeDuck(body)) {
+    return false;
+  }
+  return isStopCommand(body.replace(MENTION_PATTERN, "").trim());
+}
+
+/**
+ * Let a requester know their command is waiting behind other work
+ */
+async function notifyQueuePosition(job: JobRecord): Promise<void> {
+  const { comment, repository, sender } = job.payload;
+  const context = getJobContext(job);
+  if (!COMMAND_EVENTS.includes(job.event) || !comment || !context || !repository || !sender?.login) {
+    return;
+  }
+  if (sender.type === "Bot" || !mentionsCodeDuck(comment.body)) {
+    return;
+  }
+
+  try {
+    // Only users whose command will run hear about the queue, by the same
+    // rules the command is checked against when it starts
+    const { octokit } = await getAuthOctokit(job.payload);
+    const { config } = await loadRepoConfig(octokit, repository.owner.login, repository.name);
+    const mode = parseCommand(comment.body.replace(MENTION_PATTERN, "").trim())?.mode ?? "read";
+    const authorization = await authorizeCommand(octokit, repository, sender.login, mode, config);
+    if (!authorization.allowed) {
+      return;
+    }
+
+    // The job may have moved up or started while we were authenticating
+    const position = workerPool.getPosition(job.id) ?? 0;
+    if (position === 0) {
+      return;
+    }
+
+    await postReply(
+      octokit,
+      context,
+      `CodeDuck is busy right now. Your request is queued at position ${position} and will start automatically.`
+    );
+  } catch (error) {
+    console.error(`Failed to post queue position for job ${job.id}:`, error);
+  }
+}
+
+/**
+ * Build the issue/PR context a job is about, if any
+ */
+function getJobContext(job: JobRecord): GitHubContext | null {
+  const { repository, issue, comment, pull_request: pullRequest } = job.payload;
+  const number = issue?.number ?? pullRequest?.number;
+  if (!repository || number === undefined) {
+    return null;
+  }
+  const context = buildGitHubContext(
+    repository.full_name,
+    repository.owner.login,
+    number,
+    !!pullRequest || !!issue?.pull_request
+  );
+  if (job.event === "pull_request_review_comment" && comment) {
+    context.reviewThread = getReviewThreadRef(comment);
+  }
+  return context;
+}
 
-  // Process asynchronously
-  console.log(`Queued job ${jobId} for ${event}`);
-  processWebhookJob(job).catch(console.error);
+/**
+ * Whether two contexts are the same conversation (issue/PR, or review thread)
+ */
+function isSameConversation(a: GitHubContext, b: GitHubContext): boolean {
+  return (
+    a.owner === b.owner &&
+    a.repo === b.repo &&
+    a.issueNumber === b.issueNumber &&
+    a.reviewThread?.rootCommentId === b.reviewThread?.rootCommentId
+  );
 }
 
+/**
+ * Post a reply where the conversation happens: the review thread for inline
+ * comments, otherwise the issue or PR
+ */
+async function postReply(
+  octokit: import("@octokit/rest").Octokit,
+  context: GitHubContext,
+  body: string
+): Promise<void> {
+  if (context.reviewThread) {
+    await replyToReviewComment(
+      octokit,
+      context.owner,
+      context.repo,
+      context.issueNumber,
+      context.reviewThread.rootCommentId,
+      body
+    );
+    return;
+  }
+  await postComment(octokit, context.owner, context.repo, context.issueNumber, body);
+}
+
+/**
+ * Resume queued jobs and fail interrupted ones after a restart
+ *
+ * Jobs that were running when the process died may have partially completed
+ * (e.g. already posted comments), so they are not replayed. Instead the
+ * requester is told the run was interrupted and can ask again.
+ */
+async function recoverJobs(): Promise<void> {
+  const { queued, interrupted } = jobStore.loadAllPersistedJobs();
+
+  for (const job of interrupted) {
+    jobStore.markFailed(job.id, "Interrupted by server restart");
+    await notifyInterruptedJob(job);
+  }
+
+  for (const job of queued) {
+    console.log(`Resuming queued job ${job.id} for ${job.event}`);
+    jobRunner.schedule(job);
+  }
+}
+
+/**
+ * Tell the requester that their job was lost mid-run
+ */
+async function notifyInterruptedJob(job: JobRecord): Promise<void> {
+  // Only commands expect a reply; greetings can be dropped silently
+  const { payload } = job;
+  const context = getJobContext(job);
+  if (!COMMAND_EVENTS.includes(job.event) || !context) {
+    return;
+  }
+
+  try {
+    const { octokit } = await getAuthOctokit(payload);
+    await postReply(
+      octokit,
+      context,
+      "CodeDuck was restarted while working on this request and could not finish it. Please mention me again to retry."
+    );
+  } catch (error) {
+    console.error(`Failed to notify about interrupted job ${job.id}:`, error);
+  }
+}
 
 /**
  * Build GitHub context from webhook payload
@@ -149,85 +396,273 @@ function sanitizeError(message: string): string {
 async function processCommand(
   context: GitHubContext,
   commandText: string,
-  payload: GitHubWebhookPayload
+  payload: GitHubWebhookPayload,
+  repoConfig: RepoConfig,
+  jobId: string,
+  signal: AbortSignal,
+  prefetchedPullRequest?: PullRequestContext
 ): Promise<void> {
   let octokit: import("@octokit/rest").Octokit | null = null;
-  let hadToken = false;
+  let progress: ProgressComment | null = null;
 
   try {
     // Get authenticated Octokit client
     const authResult = await getAuthOctokit(payload);
     octokit = authResult.octokit;
 
-    // Set GitHub token for agent subprocess (installation-scoped, limited permissions)
-    process.env.GH_TOKEN = authResult.token;
-    hadToken = true;
-    console.log(`[SERVER] GH_TOKEN set for agent (installation token, scoped to repo)`);
-
-    // Post acknowledgment
-    await postComment(
+    // Post acknowledgment (edited in place as the agent works)
+    progress = new ProgressComment({
       octokit,
-      context.owner,
-      context.repo,
-      context.issueNumber,
-      "CodeDuck is processing your request..."
-    );
+      owner: context.owner,
+      repo: context.repo,
+      issueNumber: context.issueNumber,
+      reviewCommentId: context.reviewThread?.rootCommentId,
+    });
+    await progress.start();
 
     // Parse command
     const parsed = parseCommand(commandText);
     if (!parsed) {
-      await postComment(
+      await progress.finish("I couldn't parse your command. Try `@codeduck help` for available commands.");
+      return;
+    }
+    if (!isCommandEnabled(repoConfig, parsed.action)) {
+      await progress.finish(`The \`${parsed.action}\` command is disabled in this repository's \`${REPO_CONFIG_PATH}\`.`);
+      return;
+    }
+
+    // The repository's default agent applies unless the command picks a provider
+    if (!parsed.provider) {
+      parsed.provider = repoConfig.agent.provider;
+      parsed.model = repoConfig.agent.model;
+    }
+    const providerId = resolveProviderId(parsed.provider);
+    jobStore.recordProvider(jobId, providerId);
+    const providerStatus = getProviderStatus(getRuntimeConfig()).find((status) => status.id === providerId);
+    if (providerStatus && !providerStatus.usable) {
+      await progress.finish(`The \`${providerId}\` provider is not available on this server (${providerStatus.detail}).`);
+      return;
+    }
+
+    // Commands on a PR work from its metadata and diff
+    let pullRequestContext: PullRequestContext | null = prefetchedPullRequest ?? null;
+    if (context.isPR && !pullRequestContext) {
+      progress.update({ step: "Reading pull request" });
+      pullRequestContext = await fetchPullRequestContext(octokit, context.owner, context.repo, context.issueNumber);
+    }
+
+    // Reviews of a PR are submitted as GitHub reviews anchored to the diff
+    // (inside a review thread, "review" just answers in the thread)
+    const isPullRequestReview = parsed.action === "review" && pullRequestContext !== null && !context.reviewThread;
+
+    // After an earlier review, only the commits pushed since then are reviewed
+    // (`--full` reviews the whole PR again)
+    let increment: ReviewIncrement | null = null;
+    const lastReview = isPullRequestReview && !parsed.full ? getSessionInfo(context)?.lastReview : undefined;
+    if (lastReview && pullRequestContext) {
+      const { headSha } = pullRequestContext.pullRequest;
+      if (lastReview.headSha === headSha) {
+        await progress.finish(
+          `No new commits since my last review of \`${headSha.slice(0, 7)}\`. ` +
+            "Use `@codeduck review --full` for a fresh review of the whole PR."
+        );
+        return;
+      }
+      increment = await fetchReviewIncrement(octokit, context, lastReview, headSha);
+    }
+
+    // The discussion so far, minus the command and the acknowledgment
+    // (the command still runs without it if it cannot be fetched)
+    let historyText = "";
+    try {
+      const history = await fetchIssueHistory(
         octokit,
         context.owner,
         context.repo,
         context.issueNumber,
-        "I couldn't parse your command. Try `@codeduck help` for available commands."
+        [context.commentId, progress.getCommentId()].filter((id): id is number => typeof id === "number")
       );
-      return;
+      historyText = formatIssueHistory(history, { includeDescription: !pullRequestContext });
+    } catch (error) {
+      console.error("[SERVER] Failed to fetch issue history, continuing without it:", error);
     }
 
     // Build prompt based on command
-    const prompt = buildPrompt(context, parsed);
-
-    // Execute based on mode
-    console.log(`[SERVER] Calling executeSessionQuery...`);
-    const result = await executeSessionQuery(context, prompt, parsed.mode, parsed.provider);
-    console.log(`[SERVER] executeSessionQuery returned, success: ${result.success}`);
+    let prompt = pullRequestContext && isPullRequestReview
+      ? buildReviewPrompt(context, parsed.target, pullRequestContext, increment, historyText)
+      : buildPrompt(context, parsed, pullRequestContext, historyText);
 
-    if (result.success) {
-      console.log(`[SERVER] Posting success response...`);
-      const response = formatResponse(context, parsed, result.result);
-      console.log(`[SERVER] Response length: ${response.length}`);
-      await postComment(
+    if (context.reviewThread) {
+      const thread = await listReviewThread(
         octokit,
         context.owner,
         context.repo,
         context.issueNumber,
-        response
+        context.reviewThread.rootCommentId
       );
-      console.log(`[SERVER] Comment posted!`);
-    } else {
-      console.log(`[SERVER] Posting error response...`);
-      await postComment(
+      prompt = `${prompt}\n\n${formatReviewThread(context.reviewThread, thread)}`;
+    }
+
+    // Changes requested on a PR go onto its branch; elsewhere they get a new PR
+    // (dry runs publish nothing, so there is no branch to check)
+    let target: PublishTarget | null = null;
+    if (parsed.mode === "write" && pullRequestContext && !parsed.dryRun) {
+      const { pullRequest } = pullRequestContext;
+      const refusal = checkPullRequestPushable(context, pullRequest);
+      if (refusal) {
+        console.log(`[SERVER] Not pushing to PR #${pullRequest.number}: ${refusal}`);
+        await progress.finish(refusal);
+        return;
+      }
+      target = { kind: "existing-pr", pullRequest };
+    }
+
+    // Check out the repository into an isolated workspace for this job; the
+    // job's own token is handed to this run's agent only, never through the
+    // shared process environment
+    progress.update({ step: "Preparing workspace" });
+    const token = await mintJobToken(payload);
+    const baseBranch = await getDefaultBranch(octokit, context.owner, context.repo);
+    const workspace = await workspaceManager.acquire({
+      owner: context.owner,
+      repo: context.repo,
+      name: `issue-${context.issueNumber}`,
+      ref: context.isPR ? { type: "pull", number: context.issueNumber } : { type: "branch", name: baseBranch },
+      token,
+      signal,
+    });
+
+    // Execute based on mode, streaming progress into the acknowledgment comment
+    let result: AgentResponse = { success: false, result: "", error: "No result from agent" };
+    let writeSummary: string | null = null;
+
+    try {
+      if (parsed.mode === "write") {
+        console.log(`[SERVER] Running write pipeline...`);
+        const activeProgress = progress;
+        const pipelineResult = await runWritePipeline({
+          octokit,
+          workspace,
+          target: target ?? { kind: "new-pr", baseBranch },
+          context,
+          parsed,
+          prompt,
+          checks: repoConfig.checks,
+          githubToken: token,
+          signal,
+          onProgress: (state) => activeProgress.update(state),
+        });
+        result = pipelineResult.response;
+        writeSummary = formatWriteSummary(pipelineResult);
+      } else {
+        console.log(`[SERVER] Calling executeSessionStreaming...`);
+        for await (const event of executeSessionStreaming(context, prompt, parsed.mode, parsed.provider, {
+          cwd: workspace.dir,
+          signal,
+          model: parsed.model,
+          githubToken: token,
+        })) {
+          if (event.type === "step") {
+            progress.update({ step: event.text });
+          } else if (event.type === "text") {
+            progress.update({ output: event.text });
+          } else {
+            result = event.response;
+          }
+        }
+      }
+    } finally {
+      await workspace.release();
+    }
+    console.log(`[SERVER] Agent run finished, success: ${result.success}`);
+
+    // A stop command already replied; suppress the late result
+    if (result.cancelled || signal.aborted) {
+      console.log(`[SERVER] Run was cancelled, not posting result`);
+      await progress.finish("_Stopped before finishing._");
+      return;
+    }
+
+    const review = result.success && isPullRequestReview ? parseReviewOutput(result.result) : null;
+    if (review && pullRequestContext) {
+      // Everything is anchored to the commit whose files and diff were
+      // reviewed, even if the PR moved on while the agent ran
+      const { headSha } = pullRequestContext.pullRequest;
+      console.log(`[SERVER] Submitting structured review...`);
+      const submitted = await submitReview(
         octokit,
-        context.owner,
-        context.repo,
-        context.issueNumber,
-        `Error: ${sanitizeError(result.error || "Unknown error")}`
+        context,
+        headSha,
+        pullRequestContext.files,
+        review,
+        increment
       );
+      const openFindings = getOpenFindings(review, increment);
+      recordReview(context, {
+        headSha,
+        findings: openFindings,
+        reviewedAt: Date.now(),
+      });
+      const inline = submitted.inlineComments === 1 ? "1 inline comment" : `${submitted.inlineComments} inline comments`;
+      let message = `Submitted a review with ${inline}: ${submitted.url}`;
+
+      // The check reflects every finding still open on this commit
+      if (isReviewCheckRunEnabled()) {
+        try {
+          const checkUrl = await publishReviewCheckRun(
+            octokit,
+            context,
+            headSha,
+            pullRequestContext.files,
+            openFindings,
+            `${submitted.body}\n\n[View the review](${submitted.url})`
+          );
+          message = `${message}\nCheck run: ${checkUrl}`;
+        } catch (error) {
+          console.error("[SERVER] Failed to publish review check run:", error);
+        }
+      }
+      await progress.finish(message);
+      return;
+    }
+
+    if (result.success) {
+      console.log(`[SERVER] Posting success response...`);
+      const response = writeSummary ? `${result.result}\n\n---\n${writeSummary}` : result.result;
+      console.log(`[SERVER] Response length: ${response.length}`);
+      const [firstPage, ...continuations] = formatResponse(response, repoConfig.limits.maxResponseLength);
+      await progress.finish(firstPage);
+      for (const page of continuations) {
+        await postReply(octokit, context, page);
+      }
+      console.log(`[SERVER] Comment posted${continuations.length > 0 ? ` (${continuations.length + 1} parts)` : ""}!`);
+    } else {
+      console.log(`[SERVER] Posting error response...`);
+      await progress.finish(`Error: ${sanitizeError(result.error || "Unknown error")}`);
       console.log(`[SERVER] Error comment posted`);
     }
   } catch (error) {
+    // Work aborted by a stop fails with abort errors; it was stopped, not broken
+    if (signal.aborted) {
+      console.log(`[SERVER] Command stopped: ${error instanceof Error ? error.message : error}`);
+      try {
+        await progress?.finish("_Stopped before finishing._");
+      } catch {
+        console.error("Failed to post stop notice");
+      }
+      return;
+    }
     console.error("Command processing error:", error);
-    if (octokit) {
+    const message = `Error processing command: ${sanitizeError(error instanceof Error ? error.message : "Unknown error")}`;
+    if (progress) {
       try {
-        await postComment(
-          octokit,
-          context.owner,
-          context.repo,
-          context.issueNumber,
-          `Error processing command: ${sanitizeError(error instanceof Error ? error.message : "Unknown error")}`
-        );
+        await progress.finish(message);
+      } catch {
+        console.error("Failed to post error comment");
+      }
+    } else if (octokit) {
+      try {
+        await postReply(octokit, context, message);
       } catch {
         console.error("Failed to post error comment");
       }
@@ -235,30 +670,44 @@ async function processCommand(
       // Auth failed, can't post error comment
       console.error("Auth failed, could not post error comment to GitHub");
     }
-  } finally {
-    // Clean up token from environment (security best practice)
-    if (hadToken) {
-      delete process.env.GH_TOKEN;
-      console.log(`[SERVER] GH_TOKEN cleaned up`);
+  }
+}
+
+/**
+ * Cancel pooled command jobs (queued or running) for the same issue, PR or review thread
+ */
+function cancelJobsForContext(context: GitHubContext): number {
+  let cancelled = 0;
+  for (const job of jobStore.listJobs()) {
+    const jobContext = getJobContext(job);
+    if (
+      COMMAND_EVENTS.includes(job.event) &&
+      jobContext &&
+      isSameConversation(jobContext, context) &&
+      workerPool.has(job.id) &&
+      jobRunner.cancel(job.id)
+    ) {
+      cancelled++;
     }
   }
+  return cancelled;
 }
 
 /**
  * Handle stop/cancel commands
  */
 async function handleStopCommand(context: GitHubContext, payload: GitHubWebhookPayload): Promise<void> {
+  const cancelledJobs = cancelJobsForContext(context);
+  const abortedRuns = cancelSession(context);
   clearSession(context);
 
+  const message = cancelledJobs + abortedRuns > 0
+    ? "Stopped. The running request was cancelled and the session cleared."
+    : "Stopped. Nothing was running; session cleared.";
+
   try {
     const { octokit } = await getAuthOctokit(payload);
-    await postComment(
-      octokit,
-      context.owner,
-      context.repo,
-      context.issueNumber,
-      "Stopped. Session cleared."
-    );
+    await postReply(octokit, context, message);
   } catch (error) {
     console.error("Failed to post stop confirmation:", error);
   }
@@ -269,16 +718,22 @@ async function handleStopCommand(context: GitHubContext, payload: GitHubWebhookP
  */
 function buildPrompt(
   context: GitHubContext,
-  parsed: { action: string; target: string; mode: CommandMode }
+  parsed: { action: string; target: string; mode: CommandMode; dryRun?: boolean },
+  pullRequest?: PullRequestContext | null,
+  history?: string
 ): string {
-  const baseContext = `You are working on ${context.owner}/${context.repo}, issue #${context.issueNumber}.`;
+  const location = pullRequest
+    ? `You are working on ${context.owner}/${context.repo}, pull request #${context.issueNumber}. ` +
+      `The pull request's head is checked out in your working directory.\n\n${formatPullRequestContext(pullRequest)}`
+    : `You are working on ${context.owner}/${context.repo}, issue #${context.issueNumber}.`;
+  const baseContext = history ? `${location}\n\n${history}` : location;
 
   switch (parsed.action) {
     case "summarize":
     case "summary":
       return `${baseContext}
 
-Please summarize the codebase or the relevant files related to: ${parsed.target || "the entire repository"}.
+Please summarize the codebase or the relevant files related to: ${parsed.target || (pullRequest ? "this pull request" : "the entire repository")}.
 
 Provide a concise overview of what the code does, its key components, and any important patterns.`;
 
@@ -314,7 +769,9 @@ Your task:
 2. Make the necessary changes
 3. Ensure changes are complete and working
 
-When done, your changes will be committed and a PR will be created.`;
+${parsed.dryRun
+  ? "This is a dry run: when done, your changes will be shown to the user as a patch and nothing will be pushed."
+  : "When done, your changes will be committed and a PR will be created."}`;
 
     case "help":
       return `${baseContext}
@@ -326,7 +783,10 @@ Provide help about using CodeDuck. Available commands:
 - @codeduck implement [description] - Implement a feature or fix
 - @codeduck fix [description] - Fix a bug
 - @codeduck help - Show this help message
-- Optional: add \`--provider=claude|codex\` to select the AI backend`;
+- @codeduck config - Show this repository's effective CodeDuck configuration
+- Optional: add \`--provider=claude|codex\` to select the AI backend
+- Optional: add \`--dry-run\` to an implementation command to get a patch instead of a PR
+- Optional: add \`--full\` to a PR review to review the whole PR, not just the commits since the last review`;
 
     default:
       return `${baseContext}
@@ -338,19 +798,10 @@ ${parsed.action !== parsed.target ? `User requested: ${parsed.action}` : ""}`;
 }
 
 /**
- * Format response for GitHub (handles long content)
+ * Format response for GitHub: long answers are split into several comments
  */
-function formatResponse(
-  context: GitHubContext,
-  parsed: { action: string; target: string; mode: CommandMode },
-  result: string
-): string {
-  // Truncate if too long for GitHub comments
-  const maxLength = 15000;
-  if (result.length > maxLength) {
-    return result.slice(0, maxLength) + "\n\n_(truncated)_";
-  }
-  return result;
+function formatResponse(result: string, maxLength: number): string[] {
+  return paginateMarkdown(result.trim() || "_(no response)_", maxLength);
 }
 
 /**
@@ -372,6 +823,7 @@ app.get("/", (_req: Request, res: Response) => {
     status: "running",
     version: "1.0.0",
     githubApp: isGitHubAppConfigured(),
+    jobs: workerPool.getStatus(),
   });
 });
 
@@ -404,13 +856,20 @@ app.post("/webhook", async (req: Request, res: Response) => {
 
     console.log(`Received event: ${eventStr} (delivery: ${deliveryIdStr})`);
 
-    if (payload.action && !["created", "opened"].includes(payload.action)) {
+    if (CACHE_EVENTS.includes(eventStr)) {
+      invalidateCaches(eventStr, payload);
+      res.status(200).json({ status: "processed" });
+      return;
+    }
+
+    const actions = HANDLED_ACTIONS[eventStr];
+    if (actions && payload.action && !actions.includes(payload.action)) {
       res.status(200).json({ status: "ignored" });
       return;
     }
 
     // Queue job for async processing and return immediately
-    if (["issue_comment", "issues", "pull_request"].includes(eventStr)) {
+    if (actions) {
       enqueueJob(eventStr, payload, deliveryIdStr);
     } else {
       console.log(`Ignoring event: ${eventStr}`);
@@ -423,22 +882,116 @@ app.post("/webhook", async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Drop cached installation tokens, permission levels and config heads that an event makes stale
+ * - member: a collaborator's access to one repository changed
+ * - installation, installation_repositories: the app's permissions or
+ *   repositories changed, or it was uninstalled
+ * - push: a repository's default branch (and maybe its config file) moved
+ */
+function invalidateCaches(event: string, payload: GitHubWebhookPayload): void {
+  const { installation, member, repository } = payload;
+
+  if (event === "push") {
+    if (repository && payload.ref === `refs/heads/${repository.default_branch}`) {
+      invalidateRepoConfig(repository.owner.login, repository.name);
+      console.log(`[SERVER] Cleared cached config head of ${repository.full_name}`);
+    }
+    return;
+  }
+
+  if (event === "member") {
+    if (repository && member) {
+      invalidatePermissions(repository.owner.login, repository.name, member.login);
+      console.log(`[SERVER] Cleared cached permission of ${member.login} on ${repository.full_name}`);
+    }
+    return;
+  }
+
+  if (installation) {
+    invalidateInstallationToken(installation.id);
+    if (installation.account) {
+      invalidatePermissions(installation.account.login);
+    }
+    console.log(`[SERVER] Cleared cached token and permissions of installation ${installation.id} (${payload.action})`);
+  }
+}
+
 /**
  * Handle new issue comments
  */
-async function handleIssueComment(payload: {
-  comment?: { body: string; id: number };
-  issue?: { number: number };
-  repository?: { full_name: string; name: string; owner: { login: string } };
-  sender?: { type: string; login?: string };
-  installation?: { id: number };
-}) {
-  const { comment, issue, repository, sender } = payload;
+async function handleIssueComment(payload: GitHubWebhookPayload, jobId: string, signal: AbortSignal) {
+  const { comment, issue, repository } = payload;
   console.log(`[WEBHOOK] handleIssueComment called`);
+
+  if (!comment || !issue || !repository) {
+    console.log(`[WEBHOOK] Missing required fields, returning`);
+    return;
+  }
+
+  const context = buildGitHubContext(
+    repository.full_name,
+    repository.owner.login,
+    issue.number,
+    // Comments on PRs arrive as issue comments with a pull_request link
+    !!issue.pull_request,
+    comment.id
+  );
+
+  await handleCommandComment(context, payload, jobId, signal);
+}
+
+/**
+ * Handle new comments in inline review threads on a PR
+ */
+async function handleReviewComment(payload: GitHubWebhookPayload, jobId: string, signal: AbortSignal) {
+  const { comment, pull_request: pullRequest, repository } = payload;
+  console.log(`[WEBHOOK] handleReviewComment called`);
+
+  if (!comment || !pullRequest || !repository) {
+    console.log(`[WEBHOOK] Missing required fields, returning`);
+    return;
+  }
+
+  const context = buildGitHubContext(
+    repository.full_name,
+    repository.owner.login,
+    pullRequest.number,
+    true,
+    comment.id
+  );
+  context.reviewThread = getReviewThreadRef(comment);
+
+  await handleCommandComment(context, payload, jobId, signal);
+}
+
+/**
+ * Describe the review thread a review comment belongs to
+ */
+function getReviewThreadRef(comment: NonNullable<GitHubWebhookPayload["comment"]>): ReviewThreadRef {
+  return {
+    rootCommentId: comment.in_reply_to_id ?? comment.id,
+    path: comment.path ?? "",
+    diffHunk: comment.diff_hunk ?? "",
+    line: comment.line ?? comment.original_line ?? undefined,
+    startLine: comment.start_line ?? undefined,
+  };
+}
+
+/**
+ * Run the @codeduck command in a comment, if the sender may use CodeDuck
+ */
+async function handleCommandComment(
+  context: GitHubContext,
+  payload: GitHubWebhookPayload,
+  jobId: string,
+  signal: AbortSignal
+) {
+  const { comment, repository, sender } = payload;
   console.log(`[WEBHOOK] comment: ${comment?.body?.slice(0, 50)}...`);
   console.log(`[WEBHOOK] sender: ${sender?.login}, type: ${sender?.type}`);
 
-  if (!comment || !issue || !repository || !sender) {
+  if (!comment || !repository || !sender) {
     console.log(`[WEBHOOK] Missing required fields, returning`);
     return;
   }
@@ -448,69 +1001,119 @@ async function handleIssueComment(payload: {
     return;
   }
 
-  // Check comment size limit (10KB max)
-  const MAX_COMMENT_SIZE = 10 * 1024;
-  if (comment.body.length > MAX_COMMENT_SIZE) {
-    console.log(`Comment too large (${comment.body.length} bytes), skipping`);
-    return;
-  }
-
-  // Check if sender is owner or collaborator
+  // Permissions are checked per user
   const senderLogin = sender.login;
   if (!senderLogin) {
     console.log("Skipping comment with unknown sender");
     return;
   }
 
-  console.log(`[WEBHOOK] Getting auth octokit...`);
-  const { octokit } = await getAuthOctokit(payload);
-  console.log(`[WEBHOOK] Got octokit`);
-
-  const repoOwner = repository.owner.login;
-
-  if (!isOwner(repoOwner, senderLogin) && !(await isCollaborator(octokit, repoOwner, repository.name, senderLogin))) {
-    console.log(`Skipping non-collaborator @${senderLogin}`);
+  if (!mentionsCodeDuck(comment.body)) {
+    console.log(`[WEBHOOK] No @codeduck mention found`);
     return;
   }
 
-  const context = buildGitHubContext(
-    repository.full_name,
-    repository.owner.login,
-    issue.number,
-    false,
-    comment.id
-  );
+  // Every mention gets an answer, even when the command fails before
+  // processCommand can post its acknowledgment
+  try {
+    console.log(`[WEBHOOK] Getting auth octokit...`);
+    const { octokit } = await getAuthOctokit(payload);
+    console.log(`[WEBHOOK] Got octokit`);
+
+    const repoOwner = repository.owner.login;
+    const loaded = await loadRepoConfig(octokit, repoOwner, repository.name);
+    const repoConfig = loaded.config;
+
+    // Check comment size limit (10KB unless the repository sets another)
+    if (comment.body.length > repoConfig.limits.maxCommentLength) {
+      console.log(`Comment too large (${comment.body.length} bytes), skipping`);
+      return;
+    }
 
-  const mentionPattern = /@codeduck(?:\[[a-z]+\])?(?![\w-])/gi;
-  if (mentionPattern.test(comment.body)) {
-    console.log(`Found @codeduck mention in issue #${issue.number}`);
+    console.log(`Found @codeduck mention in #${context.issueNumber}`);
 
-    const commandText = comment.body.replace(mentionPattern, "").trim();
+    const commandText = comment.body.replace(MENTION_PATTERN, "").trim();
     console.log(`[WEBHOOK] Command: "${commandText}"`);
 
+    // Stop and config count as read commands
+    const mode = parseCommand(commandText)?.mode ?? "read";
+    const authorization = await authorizeCommand(octokit, repository, senderLogin, mode, repoConfig);
+    if (!authorization.allowed) {
+      console.log(`Denied ${mode} command from @${senderLogin} (${authorization.permission}, ${authorization.reason})`);
+      if (shouldExplainDenial(repository, context.issueNumber, senderLogin)) {
+        await postReply(octokit, context, formatDenial(senderLogin, mode, authorization));
+      }
+      return;
+    }
+
     if (isStopCommand(commandText)) {
       await handleStopCommand(context, payload);
       return;
     }
 
+    if (isConfigCommand(commandText)) {
+      const message = loaded.errors.length > 0 ? formatConfigErrors(loaded) : formatEffectiveConfig(loaded, repository.full_name);
+      await postReply(octokit, context, message);
+      return;
+    }
+
+    // A broken config file pauses commands rather than silently dropping its restrictions
+    if (loaded.errors.length > 0) {
+      await postReply(octokit, context, formatConfigErrors(loaded));
+      return;
+    }
+
     console.log(`[WEBHOOK] Calling processCommand...`);
-    await processCommand(context, commandText, payload);
+    await processCommand(context, commandText, payload, repoConfig, jobId, signal);
     console.log(`[WEBHOOK] processCommand returned`);
-  } else {
-    console.log(`[WEBHOOK] No @codeduck mention found`);
+  } catch (error) {
+    // The job still fails; the requester just hears about it
+    if (!signal.aborted) {
+      await notifyCommandError(context, payload, error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tell the requester that their command could not be handled
+ */
+async function notifyCommandError(context: GitHubContext, payload: GitHubWebhookPayload, error: unknown): Promise<void> {
+  try {
+    const { octokit } = await getAuthOctokit(payload);
+    await postReply(
+      octokit,
+      context,
+      `Error processing command: ${sanitizeError(error instanceof Error ? error.message : "Unknown error")}`
+    );
+  } catch (replyError) {
+    console.error("Failed to post error comment:", replyError);
+  }
+}
+
+/**
+ * Load the repository's config for an automatic event (new issue or PR)
+ * Returns null when the file is invalid; nobody asked for anything, so
+ * the problem is only logged and the event is skipped.
+ */
+async function loadEventRepoConfig(payload: GitHubWebhookPayload): Promise<RepoConfig | null> {
+  const { repository } = payload;
+  if (!repository) return null;
+
+  const { octokit } = await getAuthOctokit(payload);
+  const loaded = await loadRepoConfig(octokit, repository.owner.login, repository.name);
+  if (loaded.errors.length > 0) {
+    console.log(`[SERVER] Skipping ${payload.action ?? "event"} in ${repository.full_name}: invalid ${REPO_CONFIG_PATH}`);
+    return null;
   }
+  return loaded.config;
 }
 
 /**
- * Handle new issues - auto-greet
+ * Handle new issues: triage when the repository opted in, otherwise
+ * (or when triage fails) a greeting
  */
-async function handleIssueOpened(payload: {
-  action?: string;
-  issue?: { number: number; title?: string };
-  repository?: { full_name: string; name: string; owner: { login: string } };
-  sender?: { type: string };
-  installation?: { id: number };
-}) {
+async function handleIssueOpened(payload: GitHubWebhookPayload, jobId: string, signal: AbortSignal) {
   const { issue, repository, sender } = payload;
   if (!issue || !repository || !sender) return;
 
@@ -518,6 +1121,19 @@ async function handleIssueOpened(payload: {
 
   console.log(`New issue #${issue.number} in ${repository.full_name}`);
 
+  const repoConfig = await loadEventRepoConfig(payload);
+  if (!repoConfig) return;
+
+  const triageConfig = repoConfig.triage;
+  if (triageConfig) {
+    const triaged = await runIssueTriage(triageConfig, repoConfig, payload, jobId, signal);
+    if (triaged || triageConfig.greetingFallback === false || signal.aborted) {
+      return;
+    }
+  }
+
+  if (!repoConfig.greetings.issues) return;
+
   try {
     const { octokit } = await getAuthOctokit(payload);
     await postComment(
@@ -541,21 +1157,105 @@ Just @mention me with a command, e.g., \`@codeduck summarize the project structu
 }
 
 /**
- * Handle new PRs
+ * Triage a new issue with a read-only agent run and post the result
+ * Returns false when triage did not produce a comment.
  */
-async function handlePROpened(payload: {
-  action?: string;
-  pull_request?: { number: number; title?: string };
-  repository?: { full_name: string; name: string; owner: { login: string } };
-  sender?: { type: string };
-  installation?: { id: number };
-}) {
-  const { pull_request, repository, sender } = payload;
-  if (!pull_request || !repository || !sender) return;
+async function runIssueTriage(
+  config: IssueTriageConfig,
+  repoConfig: RepoConfig,
+  payload: GitHubWebhookPayload,
+  jobId: string,
+  signal: AbortSignal
+): Promise<boolean> {
+  const { issue, repository } = payload;
+  if (!issue || !repository) return false;
+
+  const context = buildGitHubContext(repository.full_name, repository.owner.login, issue.number, false);
 
-  if (sender.type === "Bot" || payload.action !== "opened") return;
+  try {
+    const { octokit } = await getAuthOctokit(payload);
+    const [history, labels] = await Promise.all([
+      fetchIssueHistory(octokit, context.owner, context.repo, context.issueNumber),
+      (config.labels ?? "suggest") !== "off" ? listRepoLabels(octokit, context.owner, context.repo) : [],
+    ]);
+    const candidates = (config.duplicates ?? true)
+      ? await findDuplicateCandidates(octokit, context, history.issue.title)
+      : [];
+    const prompt = buildTriagePrompt(context, config, formatIssueHistory(history), labels, candidates);
+
+    const token = await mintJobToken(payload);
+    const baseBranch = await getDefaultBranch(octokit, context.owner, context.repo);
+    const workspace = await workspaceManager.acquire({
+      owner: context.owner,
+      repo: context.repo,
+      name: `triage-${context.issueNumber}`,
+      ref: { type: "branch", name: baseBranch },
+      token,
+      signal,
+    });
+
+    // Triage stays out of the issue's conversation, so later commands start fresh
+    jobStore.recordProvider(jobId, resolveProviderId(repoConfig.agent.provider));
+    let result: AgentResponse;
+    try {
+      result = await executeSessionQuery(context, prompt, "read", repoConfig.agent.provider, {
+        cwd: workspace.dir,
+        signal,
+        model: repoConfig.agent.model,
+        ephemeral: true,
+      });
+    } finally {
+      await workspace.release();
+    }
+
+    if (result.cancelled || signal.aborted) {
+      console.log(`[TRIAGE] Triage of #${context.issueNumber} was cancelled`);
+      return false;
+    }
 
-  console.log(`New PR #${pull_request.number} in ${repository.full_name}`);
+    const triage = result.success ? parseTriageOutput(result.result, labels, candidates) : null;
+    if (!triage) {
+      console.log(`[TRIAGE] No usable triage for #${context.issueNumber}: ${result.error ?? "unparseable answer"}`);
+      return false;
+    }
+
+    const labelsApplied = await applyTriageLabels(octokit, context, config, triage);
+    await postComment(
+      octokit,
+      context.owner,
+      context.repo,
+      context.issueNumber,
+      formatTriageComment(config, triage, candidates, labelsApplied)
+    );
+    return true;
+  } catch (error) {
+    console.error(`[TRIAGE] Triage of #${context.issueNumber} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Handle pull request events: automatic review when the repository opted in,
+ * otherwise a greeting on new PRs
+ */
+async function handlePullRequest(payload: GitHubWebhookPayload, jobId: string, signal: AbortSignal) {
+  const { pull_request: pullRequest, repository, sender } = payload;
+  if (!pullRequest || !repository || !sender || !payload.action) return;
+
+  if (sender.type === "Bot") return;
+
+  const repoConfig = await loadEventRepoConfig(payload);
+  if (!repoConfig) return;
+
+  const autoReview = repoConfig.autoReview;
+  if (autoReview) {
+    await runAutoReview(autoReview, repoConfig, payload, jobId, signal);
+    return;
+  }
+
+  if (payload.action !== "opened" || !repoConfig.greetings.pullRequests) return;
+
+  console.log(`New PR #${pullRequest.number} in ${repository.full_name}`);
 
   try {
     const { octokit } = await getAuthOctokit(payload);
@@ -563,7 +1263,7 @@ async function handlePROpened(payload: {
       octokit,
       repository.owner.login,
       repository.name,
-      pull_request.number,
+      pullRequest.number,
       `Hi! I'm CodeDuck, an AI assistant for this repository.
 
 I can help you review this PR. Just @mention me with \`@codeduck review\` and I'll analyze the changes.`
@@ -573,30 +1273,136 @@ I can help you review this PR. Just @mention me with \`@codeduck review\` and I'
   }
 }
 
+/**
+ * Review a pull request automatically if it passes the repository's filters
+ */
+async function runAutoReview(
+  config: AutoReviewConfig,
+  repoConfig: RepoConfig,
+  payload: GitHubWebhookPayload,
+  jobId: string,
+  signal: AbortSignal
+) {
+  const { pull_request: pullRequest, repository } = payload;
+  if (!pullRequest || !repository || !payload.action) return;
+
+  const context = buildGitHubContext(repository.full_name, repository.owner.login, pullRequest.number, true);
+  const label = `${context.owner}/${context.repo}#${context.issueNumber}`;
+
+  const skipReason = getAutoReviewSkipReason(config, {
+    action: payload.action,
+    draft: pullRequest.draft ?? false,
+    author: pullRequest.user?.login ?? null,
+    baseRef: pullRequest.base?.ref ?? "",
+  });
+  if (skipReason) {
+    console.log(`[REVIEW] Not auto-reviewing ${label}: ${skipReason}`);
+    return;
+  }
+
+  // Path and size filters need the diff, which the review reuses
+  const { octokit } = await getAuthOctokit(payload);
+  const pullRequestContext = await fetchPullRequestContext(octokit, context.owner, context.repo, context.issueNumber);
+  const diffSkipReason = getDiffSkipReason(config, pullRequestContext.files);
+  if (diffSkipReason) {
+    console.log(`[REVIEW] Not auto-reviewing ${label}: ${diffSkipReason}`);
+    return;
+  }
+
+  console.log(`[REVIEW] Auto-reviewing ${label} (${payload.action})`);
+  await processCommand(context, "review", payload, repoConfig, jobId, signal, pullRequestContext);
+}
+
 /**
  * Error handling middleware
  */
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
+function handleError(err: Error, _req: Request, res: Response, _next: NextFunction): void {
   console.error("Error:", err);
   res.status(500).json({ error: err.message });
-});
+}
+
+/**
+ * Create the job store, worker pool, workspaces and sessions from the
+ * validated configuration, and mount the routes that use them
+ */
+function initServices(config: RuntimeConfig): void {
+  jobStore = new JobStore({
+    dir: config.jobs.dir,
+    retentionMs: JOB_RETENTION_MS,
+  });
+  workerPool = new WorkerPool({ concurrency: config.jobs.maxConcurrent });
+  jobRunner = new JobRunner({
+    store: jobStore,
+    pool: workerPool,
+    handler: processWebhookJob,
+    isUrgent: isStopJob,
+    onQueued: (job) => {
+      notifyQueuePosition(job).catch(console.error);
+    },
+  });
+  workspaceManager = createWorkspaceManager(config.workspaces);
+  initSessions(config);
+
+  // Admin API - job inspection and control (requires ADMIN_API_TOKEN)
+  app.use(
+    "/admin",
+    createAdminRouter({
+      token: config.server.adminApiToken,
+      jobStore,
+      workerPool,
+      cancelJob: (id) => jobRunner.cancel(id),
+      retryJob: (id) => jobRunner.retry(id),
+      listSessions,
+    })
+  );
+  app.use(handleError);
+}
 
 /**
  * Start the server
  */
 export function startServer(): void {
-  // Log partial config warning if applicable
-  const partialWarning = checkPartialAppConfig();
-  if (partialWarning) {
-    console.warn(partialWarning);
+  // Refuse to start on a broken configuration rather than failing per webhook
+  const { config, errors, warnings } = loadRuntimeConfig();
+  if (errors.length > 0) {
+    console.error("[CONFIG] Invalid configuration:");
+    for (const error of errors) {
+      console.error(`[CONFIG]   - ${error}`);
+    }
+    process.exit(1);
+  }
+  setRuntimeConfig(config);
+  initServices(config);
+  for (const line of formatStartupReport(config)) {
+    console.log(`[CONFIG] ${line}`);
   }
+  for (const warning of warnings) {
+    console.warn(`[CONFIG] Warning: ${warning}`);
+  }
+
+  // Prune finished job records (every hour)
+  setInterval(() => jobStore.cleanupFinishedJobs(), 60 * 60 * 1000);
 
-  const port = parseInt(PORT.toString(), 10);
+  const port = config.server.port;
+
+  // Remove worktrees left behind by a crash before any job can start
+  workspaceManager
+    .cleanupStaleWorktrees()
+    .catch((error) => console.error("Failed to clean up stale worktrees:", error))
+    .finally(() => {
+      recoverJobs().catch((error) => console.error("Failed to recover jobs:", error));
+      listen(port);
+    });
+}
+
+/**
+ * Start accepting HTTP requests
+ */
+function listen(port: number): void {
   app.listen(port, () => {
     console.log(`=== CodeDuck ===`);
     console.log(`Server running on http://localhost:${port}`);
     console.log(`Webhook endpoint: http://localhost:${port}/webhook`);
-    console.log(`GitHub App: ${isGitHubAppConfigured() ? "configured" : "not configured (using PAT)"}`);
     console.log();
     console.log("Ready to receive GitHub events!");
   });
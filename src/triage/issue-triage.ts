@@ -0,0 +1,275 @@
+/**
+ * CodeDuck - Issue triage
+ *
+ * Optional per-repository triage of new issues: a read-only agent run
+ * classifies the issue, picks labels from the repository's existing set,
+ * asks for missing reproduction details and points out likely duplicates
+ * found through issue search.
+ */
+
+import type { Octokit } from "@octokit/rest";
+import { findRepoEntry, getRuntimeConfig } from "../config/runtime-config.js";
+import {
+  addLabels,
+  searchIssues,
+  type IssueSearchResult,
+  type RepoLabel,
+} from "../github/client.js";
+import type { GitHubContext } from "../utils/types.js";
+
+export type IssueType = "bug" | "feature" | "question" | "other";
+
+const ISSUE_TYPES: IssueType[] = ["bug", "feature", "question", "other"];
+
+export interface IssueTriageConfig {
+  /** Report the issue type (default: true) */
+  classify?: boolean;
+  /** Suggest labels in the comment or apply them directly (default: "suggest") */
+  labels?: "off" | "suggest" | "apply";
+  /** Ask for missing reproduction details (default: true) */
+  askForDetails?: boolean;
+  /** Link likely duplicate issues (default: true) */
+  duplicates?: boolean;
+  /** Post the greeting if triage fails (default: true) */
+  greetingFallback?: boolean;
+}
+
+export interface TriageResult {
+  type: IssueType;
+  labels: string[];
+  missingDetails: string[];
+  duplicates: number[];
+}
+
+/**
+ * Fence the agent is asked to put its triage in
+ */
+const TRIAGE_FENCE = "codeduck-triage";
+
+/**
+ * Issues considered as possible duplicates
+ */
+const MAX_DUPLICATE_CANDIDATES = 8;
+
+/**
+ * Labels listed in the prompt, and applied at most
+ */
+const MAX_PROMPT_LABELS = 100;
+const MAX_APPLIED_LABELS = 5;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "but", "can", "cannot", "does", "doesn", "for", "from", "have", "how",
+  "into", "not", "the", "this", "that", "when", "with", "why", "what", "while", "after", "before",
+  "should", "would", "could", "there", "their", "then", "than", "issue", "error", "bug", "feature",
+]);
+
+/**
+ * Per-repository settings from ISSUE_TRIAGE, e.g.
+ * {"owner/repo": {"labels": "apply", "duplicates": false}}
+ * Repositories without an entry get the greeting instead.
+ */
+export function getIssueTriageConfig(
+  owner: string,
+  repo: string,
+  entries: Record<string, IssueTriageConfig> = getRuntimeConfig().issueTriage
+): IssueTriageConfig | null {
+  return findRepoEntry(entries, owner, repo);
+}
+
+/**
+ * Search terms for finding duplicates: the title's distinctive words
+ */
+export function buildDuplicateQuery(title: string): string | null {
+  const words = title
+    .toLowerCase()
+    .split(/[^a-z0-9_.-]+/)
+    .map((word) => word.replace(/^[.-]+|[.-]+$/g, ""))
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+  const unique = [...new Set(words)].slice(0, 5);
+  return unique.length > 0 ? `${unique.join(" OR ")} in:title` : null;
+}
+
+/**
+ * Look up open and closed issues that may describe the same problem
+ */
+export async function findDuplicateCandidates(
+  octokit: Octokit,
+  context: GitHubContext,
+  title: string
+): Promise<IssueSearchResult[]> {
+  const query = buildDuplicateQuery(title);
+  if (!query) {
+    return [];
+  }
+  try {
+    const results = await searchIssues(octokit, context.owner, context.repo, query, MAX_DUPLICATE_CANDIDATES + 1);
+    return results.filter((result) => result.number !== context.issueNumber).slice(0, MAX_DUPLICATE_CANDIDATES);
+  } catch (error) {
+    console.error("[TRIAGE] Issue search failed:", error);
+    return [];
+  }
+}
+
+/**
+ * Build the prompt for triaging a new issue
+ */
+export function buildTriagePrompt(
+  context: GitHubContext,
+  config: IssueTriageConfig,
+  history: string,
+  labels: RepoLabel[],
+  candidates: IssueSearchResult[]
+): string {
+  const tasks: string[] = [];
+  if (config.classify ?? true) {
+    tasks.push(`- Classify the issue as one of: ${ISSUE_TYPES.join(", ")}.`);
+  }
+  if ((config.labels ?? "suggest") !== "off") {
+    tasks.push("- Pick the labels that fit the issue, only from the repository's labels listed below.");
+  }
+  if (config.askForDetails ?? true) {
+    tasks.push(
+      "- If it is a bug report lacking what is needed to reproduce it (steps, expected vs actual behavior, " +
+        "version, environment, logs), list short questions asking for exactly what is missing."
+    );
+  }
+  if (config.duplicates ?? true) {
+    tasks.push("- Decide which of the candidate issues below, if any, describe the same problem.");
+  }
+
+  const labelList = labels
+    .slice(0, MAX_PROMPT_LABELS)
+    .map((label) => `- ${label.name}${label.description ? `: ${label.description}` : ""}`);
+  const candidateList = candidates.map((issue) => `- #${issue.number} (${issue.state}): ${issue.title}`);
+
+  return `You are triaging the newly opened issue #${context.issueNumber} in ${context.owner}/${context.repo}.
+The repository is checked out in your working directory if you need to look at the code. Do not change anything.
+
+${history}
+
+Your tasks:
+${tasks.join("\n")}
+
+Repository labels:
+${labelList.join("\n") || "(none)"}
+
+Candidate duplicates from issue search:
+${candidateList.join("\n") || "(none)"}
+
+Answer with exactly one fenced block in this format:
+
+\`\`\`${TRIAGE_FENCE}
+{
+  "type": "bug",
+  "labels": ["bug"],
+  "missingDetails": ["Which version are you using?"],
+  "duplicates": [12]
+}
+\`\`\`
+
+Use empty lists when nothing applies.`;
+}
+
+function toStrings(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "") : [];
+}
+
+/**
+ * Extract the triage from the agent's answer, keeping only labels that
+ * exist in the repository and duplicates that were offered as candidates
+ * Returns null when the answer has no parseable triage block.
+ */
+export function parseTriageOutput(
+  text: string,
+  labels: RepoLabel[],
+  candidates: IssueSearchResult[]
+): TriageResult | null {
+  const blocks = [...text.matchAll(new RegExp("```" + TRIAGE_FENCE + "\\s*\\n([\\s\\S]*?)\\n```", "g"))];
+  const block = blocks[blocks.length - 1];
+  if (!block) {
+    return null;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(block[1]);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return null;
+  }
+
+  const raw = parsed as Record<string, unknown>;
+  const labelNames = new Map(labels.map((label) => [label.name.toLowerCase(), label.name]));
+  const candidateNumbers = new Set(candidates.map((candidate) => candidate.number));
+
+  return {
+    type: ISSUE_TYPES.includes(raw.type as IssueType) ? (raw.type as IssueType) : "other",
+    labels: [...new Set(toStrings(raw.labels).map((name) => labelNames.get(name.trim().toLowerCase())))]
+      .filter((name): name is string => name !== undefined)
+      .slice(0, MAX_APPLIED_LABELS),
+    missingDetails: toStrings(raw.missingDetails).map((question) => question.trim()),
+    duplicates: Array.isArray(raw.duplicates)
+      ? raw.duplicates.filter((number): number is number => typeof number === "number" && candidateNumbers.has(number))
+      : [],
+  };
+}
+
+/**
+ * Render the triage comment; labelsApplied says whether the labels were
+ * added to the issue or are only suggestions
+ */
+export function formatTriageComment(
+  config: IssueTriageConfig,
+  triage: TriageResult,
+  candidates: IssueSearchResult[],
+  labelsApplied: boolean
+): string {
+  const sections = ["Thanks for opening this issue!"];
+
+  if (config.classify ?? true) {
+    sections.push(`**Type:** ${triage.type}`);
+  }
+
+  if ((config.labels ?? "suggest") !== "off" && triage.labels.length > 0) {
+    const names = triage.labels.map((name) => `\`${name}\``).join(", ");
+    sections.push(labelsApplied ? `**Labels added:** ${names}` : `**Suggested labels:** ${names}`);
+  }
+
+  if ((config.duplicates ?? true) && triage.duplicates.length > 0) {
+    const byNumber = new Map(candidates.map((candidate) => [candidate.number, candidate]));
+    const lines = triage.duplicates.map((number) => {
+      const candidate = byNumber.get(number);
+      return `- #${number}${candidate ? ` ${candidate.title} (${candidate.state})` : ""}`;
+    });
+    sections.push(`**This may be a duplicate of:**\n${lines.join("\n")}`);
+  }
+
+  if ((config.askForDetails ?? true) && triage.missingDetails.length > 0) {
+    sections.push(
+      `**To help reproduce this, could you share:**\n${triage.missingDetails.map((question) => `- ${question}`).join("\n")}`
+    );
+  }
+
+  sections.push("---\n_Triage by CodeDuck. Mention `@codeduck` with a command for more help._");
+  return sections.join("\n\n");
+}
+
+/**
+ * Apply the picked labels when the repository asks for it
+ * Returns whether labels were added.
+ */
+export async function applyTriageLabels(
+  octokit: Octokit,
+  context: GitHubContext,
+  config: IssueTriageConfig,
+  triage: TriageResult
+): Promise<boolean> {
+  if (config.labels !== "apply" || triage.labels.length === 0) {
+    return false;
+  }
+  await addLabels(octokit, context.owner, context.repo, context.issueNumber, triage.labels);
+  console.log(`[TRIAGE] Labeled ${context.owner}/${context.repo}#${context.issueNumber}: ${triage.labels.join(", ")}`);
+  return true;
+}
@@ -19,6 +19,12 @@ export interface ParsedCommand {
   target: string;
   original: string;
   provider?: ProviderOverride;
+  /** Model for the provider, from the repository's config */
+  model?: string;
+  /** Write-mode only: post the patch instead of pushing it */
+  dryRun?: boolean;
+  /** Review-only: review the whole PR, not just the commits since the last review */
+  full?: boolean;
 }
 
 /**
@@ -30,9 +36,39 @@ export interface GitHubContext {
   issueNumber: number;
   isPR: boolean;
   commentId?: number;
+  /** Set when the command came from an inline review thread on a PR */
+  reviewThread?: ReviewThreadRef;
   triggeredAt: string;
 }
 
+/**
+ * An inline review thread on a pull request
+ */
+export interface ReviewThreadRef {
+  /** ID of the first comment in the thread; replies and session keys use it */
+  rootCommentId: number;
+  path: string;
+  diffHunk: string;
+  line?: number;
+  startLine?: number;
+}
+
+export type ReviewSeverity = "critical" | "major" | "minor" | "nit";
+
+/**
+ * A problem found by a pull request review, anchored to lines of the new file
+ */
+export interface ReviewFinding {
+  path: string;
+  /** First line of the range (new file); omitted for single-line findings */
+  startLine?: number;
+  line: number;
+  severity: ReviewSeverity;
+  message: string;
+  /** Replacement for lines startLine..line, offered as a one-click suggestion */
+  suggestion?: string;
+}
+
 /**
  * Claude Agent response
  */
@@ -40,37 +76,83 @@ export interface AgentResponse {
   result: string;
   success: boolean;
   error?: string;
+  /** Set when the run was aborted (e.g. by "@codeduck stop") */
+  cancelled?: boolean;
 }
 
 /**
- * GitHub webhook payload for issue_comment events
+ * Incremental output from a streaming agent run
+ * - step: what the agent is doing right now (tool call, command, edit)
+ * - text: partial assistant output
+ * - result: final outcome, always the last event
+ */
+export type AgentStreamEvent =
+  | { type: "step"; text: string }
+  | { type: "text"; text: string }
+  | { type: "result"; response: AgentResponse };
+
+/**
+ * GitHub webhook payload for issue_comment, pull_request_review_comment,
+ * issues, pull_request, member, installation and push events
  */
 export interface GitHubWebhookPayload {
   action?: string;
   comment?: {
     body: string;
     id: number;
+    /** Review comment fields (pull_request_review_comment events) */
+    path?: string;
+    diff_hunk?: string;
+    line?: number | null;
+    original_line?: number | null;
+    start_line?: number | null;
+    in_reply_to_id?: number;
   };
   issue?: {
     number: number;
     title?: string;
+    /** Present when the issue is a pull request */
+    pull_request?: {
+      url?: string;
+    };
   };
   pull_request?: {
     number: number;
     title?: string;
+    draft?: boolean;
+    user?: {
+      login: string;
+    } | null;
+    base?: {
+      ref: string;
+    };
   };
+  /** Pushed ref, e.g. "refs/heads/main" (push events) */
+  ref?: string;
   repository?: {
     full_name: string;
     name: string;
+    default_branch?: string;
     owner: {
       login: string;
+      /** "User" or "Organization" */
+      type?: string;
     };
   };
   sender?: {
     type: string;
+    login?: string;
   };
   installation?: {
     id: number;
+    /** Installation events: the user or organization the app is installed on */
+    account?: {
+      login: string;
+    };
+  };
+  /** Member events: the collaborator who was added, removed or changed */
+  member?: {
+    login: string;
   };
 }
 
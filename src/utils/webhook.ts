@@ -3,6 +3,7 @@
  */
 
 import crypto from "crypto";
+import { getRuntimeConfig, type WebhookSettings } from "../config/runtime-config.js";
 import type { GitHubWebhookPayload } from "./types.js";
 
 /**
@@ -11,13 +12,12 @@ import type { GitHubWebhookPayload } from "./types.js";
 export function verifyWebhookSignature(
   payload: string,
   signature: string | undefined,
-  env: NodeJS.ProcessEnv = process.env
+  settings: WebhookSettings = getRuntimeConfig().webhook
 ): boolean {
-  const webhookSecret = env.GITHUB_APP_WEBHOOK_SECRET || env.GITHUB_WEBHOOK_SECRET || "";
+  const webhookSecret = settings.secret;
 
   if (!webhookSecret) {
-    const isDevelopment = env.NODE_ENV === "development";
-    if (isDevelopment) {
+    if (settings.allowUnsigned) {
       console.warn("Webhook secret not configured - skipping verification (development mode)");
       return true;
     }
@@ -102,6 +102,13 @@ export function validateWebhookSchema(data: unknown): data is GitHubWebhookPaylo
     }
   }
 
+  if (payload.comment && payload.pull_request) {
+    const comment = payload.comment as Record<string, unknown>;
+    if (typeof comment.body !== "string" || typeof comment.id !== "number") {
+      return false;
+    }
+  }
+
   if (payload.issue && !payload.comment) {
     const issue = payload.issue as Record<string, unknown>;
     if (typeof issue.number !== "number") {
@@ -0,0 +1,130 @@
+/**
+ * CodeDuck - Git command helpers
+ *
+ * Thin wrapper around the git CLI for job workspaces. Credentials are passed
+ * through environment config rather than remote URLs, so they never land in
+ * .git/config (which the agent can read) or in error messages.
+ */
+
+import { execFile } from "child_process";
+
+/**
+ * Identity used for commits CodeDuck creates
+ */
+export const GIT_AUTHOR_NAME = "CodeDuck";
+export const GIT_AUTHOR_EMAIL = "codeduck[bot]@users.noreply.github.com";
+
+/**
+ * Generous cap on git output (diffs of large changes)
+ */
+const MAX_GIT_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+export interface GitOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal;
+  /** Values to mask if they show up in error output */
+  secrets?: string[];
+}
+
+/**
+ * Error thrown when a git command exits non-zero
+ */
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly command: string,
+    public readonly exitCode: number | null,
+    public readonly stderr: string
+  ) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+function redact(text: string, secrets: string[] = []): string {
+  return secrets.filter(Boolean).reduce((result, secret) => result.split(secret).join("***"), text);
+}
+
+/**
+ * Run a git command and return its stdout
+ */
+export function runGit(args: string[], options: GitOptions = {}): Promise<string> {
+  const { cwd, env, signal, secrets } = options;
+
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      {
+        cwd,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...env },
+        signal,
+        maxBuffer: MAX_GIT_OUTPUT_BYTES,
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const exitCode = typeof error.code === "number" ? error.code : null;
+          const detail = redact(String(stderr || error.message).trim(), secrets);
+          reject(new GitError(`git ${args[0]} failed: ${detail}`, args[0], exitCode, detail));
+          return;
+        }
+        resolve(String(stdout));
+      }
+    );
+  });
+}
+
+/**
+ * Read an object's raw bytes (binary-safe, unlike runGit)
+ */
+export function readGitBlob(sha: string, options: GitOptions = {}): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["cat-file", "blob", sha],
+      {
+        cwd: options.cwd,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: "0", ...options.env },
+        signal: options.signal,
+        maxBuffer: MAX_GIT_OUTPUT_BYTES,
+        encoding: "buffer",
+      },
+      (error, stdout, stderr) => {
+        if (error) {
+          const exitCode = typeof error.code === "number" ? error.code : null;
+          const detail = String(stderr || error.message).trim();
+          reject(new GitError(`git cat-file failed: ${detail}`, "cat-file", exitCode, detail));
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+/**
+ * Environment that authenticates git against github.com with an installation token
+ */
+export function gitAuthEnv(token: string): NodeJS.ProcessEnv {
+  const basic = Buffer.from(`x-access-token:${token}`).toString("base64");
+  return {
+    GIT_CONFIG_COUNT: "1",
+    GIT_CONFIG_KEY_0: "http.https://github.com/.extraheader",
+    GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${basic}`,
+  };
+}
+
+/**
+ * HTTPS clone URL for a repository (no credentials embedded)
+ */
+export function getRepoUrl(owner: string, repo: string): string {
+  return `https://github.com/${owner}/${repo}.git`;
+}
+
+/**
+ * Git config arguments that set the commit identity for one command
+ */
+export function commitIdentityArgs(): string[] {
+  return ["-c", `user.name=${GIT_AUTHOR_NAME}`, "-c", `user.email=${GIT_AUTHOR_EMAIL}`];
+}
@@ -0,0 +1,352 @@
+/**
+ * CodeDuck - Workspace Manager
+ *
+ * Keeps a bare mirror per repository as a local cache and creates a fresh
+ * git worktree per job at the requested ref, so agents never read or modify
+ * the bot's own source tree. Worktrees are removed when the job finishes and
+ * mirror/worktree disk usage is bounded by quotas.
+ */
+
+import { existsSync, mkdirSync, readdirSync, rmSync, utimesSync } from "fs";
+import { lstat, readdir } from "fs/promises";
+import { join } from "path";
+import type { RuntimeConfig } from "../config/runtime-config.js";
+import { AsyncKeyedLock } from "../utils/async-lock.js";
+import { getRepoUrl, gitAuthEnv, runGit } from "./git.js";
+
+/**
+ * Which commit a job workspace should start from
+ */
+export type WorkspaceRef =
+  | { type: "branch"; name: string }
+  | { type: "pull"; number: number };
+
+export interface WorkspaceRequest {
+  owner: string;
+  repo: string;
+  /** Stable per-thread name (e.g. "issue-12"), so agent sessions can resume in the same path */
+  name: string;
+  ref: WorkspaceRef;
+  token: string;
+  signal?: AbortSignal;
+}
+
+export interface JobWorkspace {
+  dir: string;
+  ref: WorkspaceRef;
+  baseSha: string;
+  /** Throw WorkspaceQuotaError if the worktree has grown past its quota */
+  checkQuota(): Promise<void>;
+  /** Remove the worktree and let the next job for this path proceed */
+  release(): Promise<void>;
+}
+
+/**
+ * Error thrown when a workspace or the mirror cache exceeds its disk quota
+ */
+export class WorkspaceQuotaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceQuotaError";
+  }
+}
+
+interface WorkspaceManagerOptions {
+  rootDir: string;
+  /** Maximum size of a single job worktree */
+  maxWorkspaceBytes: number;
+  /** Maximum total size of all cached mirrors */
+  maxCacheBytes: number;
+  /** Remote to mirror from (defaults to github.com) */
+  getRemoteUrl?: (owner: string, repo: string) => string;
+  logger?: Pick<Console, "log" | "warn" | "error">;
+}
+
+function sanitizeSegment(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, "_");
+}
+
+function formatBytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Total size of a directory tree in bytes (symlinks are not followed)
+ */
+export async function getDirectorySize(dir: string): Promise<number> {
+  let total = 0;
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+
+  for (const entry of entries) {
+    const path = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await getDirectorySize(path);
+    } else {
+      try {
+        total += (await lstat(path)).size;
+      } catch {
+        // File removed while walking
+      }
+    }
+  }
+  return total;
+}
+
+export class WorkspaceManager {
+  private readonly mirrorsDir: string;
+  private readonly worktreesDir: string;
+  private readonly maxWorkspaceBytes: number;
+  private readonly maxCacheBytes: number;
+  private readonly getRemoteUrl: (owner: string, repo: string) => string;
+  private readonly logger: Pick<Console, "log" | "warn" | "error">;
+
+  // Serializes fetches per mirror and jobs per worktree path
+  private readonly mirrorLock = new AsyncKeyedLock();
+  private readonly worktreeLock = new AsyncKeyedLock();
+  // Mirrors with live worktrees are never evicted
+  private readonly mirrorsInUse = new Map<string, number>();
+
+  constructor(options: WorkspaceManagerOptions) {
+    this.mirrorsDir = join(options.rootDir, "mirrors");
+    this.worktreesDir = join(options.rootDir, "worktrees");
+    this.maxWorkspaceBytes = options.maxWorkspaceBytes;
+    this.maxCacheBytes = options.maxCacheBytes;
+    this.getRemoteUrl = options.getRemoteUrl ?? getRepoUrl;
+    this.logger = options.logger ?? console;
+  }
+
+  getMirrorPath(owner: string, repo: string): string {
+    return join(this.mirrorsDir, sanitizeSegment(owner), `${sanitizeSegment(repo)}.git`);
+  }
+
+  getWorktreePath(owner: string, repo: string, name: string): string {
+    return join(this.worktreesDir, sanitizeSegment(owner), sanitizeSegment(repo), sanitizeSegment(name));
+  }
+
+  /**
+   * Create a fresh worktree for a job
+   */
+  async acquire(request: WorkspaceRequest): Promise<JobWorkspace> {
+    const { owner, repo, name, ref, token, signal } = request;
+    const mirror = this.getMirrorPath(owner, repo);
+    const dir = this.getWorktreePath(owner, repo, name);
+
+    const releaseWorktreeLock = await this.worktreeLock.acquire(dir);
+    this.mirrorsInUse.set(mirror, (this.mirrorsInUse.get(mirror) ?? 0) + 1);
+
+    let released = false;
+    const release = async () => {
+      if (released) return;
+      released = true;
+      try {
+        await this.removeWorktree(mirror, dir);
+      } finally {
+        const count = (this.mirrorsInUse.get(mirror) ?? 1) - 1;
+        if (count <= 0) {
+          this.mirrorsInUse.delete(mirror);
+        } else {
+          this.mirrorsInUse.set(mirror, count);
+        }
+        releaseWorktreeLock();
+      }
+    };
+
+    try {
+      const sha = await this.updateMirror(owner, repo, ref, token, signal);
+
+      // A previous run may have crashed before cleaning up
+      await this.removeWorktree(mirror, dir);
+      mkdirSync(join(dir, ".."), { recursive: true, mode: 0o700 });
+
+      this.logger.log(`[WORKSPACE] Creating worktree for ${owner}/${repo}@${sha.slice(0, 7)} in ${dir}`);
+      await runGit(["worktree", "add", "--detach", dir, sha], { cwd: mirror, signal });
+
+      const workspace: JobWorkspace = {
+        dir,
+        ref,
+        baseSha: sha,
+        checkQuota: () => this.checkWorkspaceQuota(dir),
+        release,
+      };
+
+      await workspace.checkQuota();
+
+      this.enforceCacheQuota().catch((error) => {
+        this.logger.error("[WORKSPACE] Failed to enforce mirror cache quota:", error);
+      });
+
+      return workspace;
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  }
+
+  /**
+   * Remove leftovers from jobs that never released (e.g. after a crash)
+   */
+  async cleanupStaleWorktrees(): Promise<void> {
+    rmSync(this.worktreesDir, { recursive: true, force: true });
+
+    if (!existsSync(this.mirrorsDir)) {
+      return;
+    }
+    for (const owner of readdirSync(this.mirrorsDir)) {
+      for (const repo of readdirSync(join(this.mirrorsDir, owner))) {
+        try {
+          await runGit(["worktree", "prune"], { cwd: join(this.mirrorsDir, owner, repo) });
+        } catch (error) {
+          this.logger.warn(`[WORKSPACE] Failed to prune worktrees for ${owner}/${repo}:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Create or refresh the bare mirror and return the commit for the requested ref
+   */
+  private async updateMirror(
+    owner: string,
+    repo: string,
+    ref: WorkspaceRef,
+    token: string,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const mirror = this.getMirrorPath(owner, repo);
+    const releaseMirrorLock = await this.mirrorLock.acquire(mirror);
+    let created = false;
+
+    try {
+      if (!existsSync(mirror)) {
+        created = true;
+        this.logger.log(`[WORKSPACE] Creating mirror for ${owner}/${repo}`);
+        mkdirSync(mirror, { recursive: true, mode: 0o700 });
+        await runGit(["init", "--bare", "--quiet"], { cwd: mirror, signal });
+        await runGit(["remote", "add", "origin", this.getRemoteUrl(owner, repo)], { cwd: mirror, signal });
+      }
+
+      const refspecs = ["+refs/heads/*:refs/heads/*"];
+      let localRef: string;
+      if (ref.type === "pull") {
+        localRef = `refs/pull/${ref.number}/head`;
+        refspecs.push(`+${localRef}:${localRef}`);
+      } else {
+        localRef = `refs/heads/${ref.name}`;
+      }
+
+      await runGit(["fetch", "--prune", "--quiet", "origin", ...refspecs], {
+        cwd: mirror,
+        env: gitAuthEnv(token),
+        signal,
+        secrets: [token],
+      });
+
+      // Touch the mirror so cache eviction is least-recently-used
+      const now = new Date();
+      utimesSync(mirror, now, now);
+
+      return (await runGit(["rev-parse", `${localRef}^{commit}`], { cwd: mirror, signal })).trim();
+    } catch (error) {
+      // A mirror that never completed its first fetch would break every later job
+      if (created) {
+        rmSync(mirror, { recursive: true, force: true });
+      }
+      throw error;
+    } finally {
+      releaseMirrorLock();
+    }
+  }
+
+  /**
+   * Evict least-recently-used mirrors until the cache fits its quota
+   */
+  async enforceCacheQuota(): Promise<void> {
+    if (!existsSync(this.mirrorsDir)) {
+      return;
+    }
+
+    const mirrors: Array<{ path: string; size: number; usedAt: number }> = [];
+    for (const owner of readdirSync(this.mirrorsDir)) {
+      for (const repo of readdirSync(join(this.mirrorsDir, owner))) {
+        const path = join(this.mirrorsDir, owner, repo);
+        const stats = await lstat(path);
+        mirrors.push({ path, size: await getDirectorySize(path), usedAt: stats.mtimeMs });
+      }
+    }
+
+    let total = mirrors.reduce((sum, mirror) => sum + mirror.size, 0);
+    mirrors.sort((a, b) => a.usedAt - b.usedAt);
+
+    for (const mirror of mirrors) {
+      if (total <= this.maxCacheBytes) {
+        break;
+      }
+      if (this.mirrorsInUse.has(mirror.path)) {
+        continue;
+      }
+
+      const releaseMirrorLock = await this.mirrorLock.acquire(mirror.path);
+      try {
+        if (this.mirrorsInUse.has(mirror.path)) {
+          continue;
+        }
+        this.logger.log(`[WORKSPACE] Evicting mirror ${mirror.path} (${formatBytes(mirror.size)})`);
+        rmSync(mirror.path, { recursive: true, force: true });
+        total -= mirror.size;
+      } finally {
+        releaseMirrorLock();
+      }
+    }
+
+    if (total > this.maxCacheBytes) {
+      this.logger.warn(
+        `[WORKSPACE] Mirror cache is ${formatBytes(total)}, above its ${formatBytes(this.maxCacheBytes)} quota, but all mirrors are in use`
+      );
+    }
+  }
+
+  private async checkWorkspaceQuota(dir: string): Promise<void> {
+    const size = await getDirectorySize(dir);
+    if (size > this.maxWorkspaceBytes) {
+      throw new WorkspaceQuotaError(
+        `Workspace uses ${formatBytes(size)}, above the ${formatBytes(this.maxWorkspaceBytes)} limit`
+      );
+    }
+  }
+
+  private async removeWorktree(mirror: string, dir: string): Promise<void> {
+    if (existsSync(mirror)) {
+      try {
+        await runGit(["worktree", "remove", "--force", dir], { cwd: mirror });
+      } catch {
+        // Not registered (or already gone); fall through to rm
+      }
+    }
+    rmSync(dir, { recursive: true, force: true });
+    if (existsSync(mirror)) {
+      try {
+        await runGit(["worktree", "prune"], { cwd: mirror });
+      } catch {
+        // best-effort cleanup
+      }
+    }
+  }
+}
+
+const MEGABYTE = 1024 * 1024;
+
+/**
+ * Workspace manager for the configured directory and size limits
+ */
+export function createWorkspaceManager(workspaces: RuntimeConfig["workspaces"]): WorkspaceManager {
+  return new WorkspaceManager({
+    rootDir: workspaces.dir,
+    maxWorkspaceBytes: workspaces.maxWorkspaceMb * MEGABYTE,
+    maxCacheBytes: workspaces.maxCacheMb * MEGABYTE,
+  });
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createAdminRouter, toJobView } from "../src/admin/routes.js";
+import { JobStore } from "../src/jobs/job-store.js";
+import { WorkerPool } from "../src/jobs/worker-pool.js";
+import { JobRunner, type JobHandler } from "../src/jobs/job-runner.js";
+
+const silentLogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const payload = {
+  comment: { body: "@codeduck review the parser --provider=codex", id: 1 },
+  issue: { number: 7 },
+  repository: { full_name: "owner/repo", name: "repo", owner: { login: "owner" } },
+};
+
+describe("admin API", () => {
+  let server: Server;
+  let baseUrl: string;
+  let jobStore: JobStore;
+  let workerPool: WorkerPool;
+  let runner: JobRunner;
+  let handler: JobHandler;
+
+  beforeEach(async () => {
+    jobStore = new JobStore({
+      dir: mkdtempSync(join(tmpdir(), "codeduck-admin-")),
+      retentionMs: 10_000,
+      logger: silentLogger,
+    });
+    workerPool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+    handler = async () => {};
+    runner = new JobRunner({
+      store: jobStore,
+      pool: workerPool,
+      handler: (job, signal) => handler(job, signal),
+      logger: silentLogger,
+    });
+
+    const app = express();
+    app.use(
+      "/admin",
+      createAdminRouter({
+        token: "secret",
+        jobStore,
+        workerPool,
+        cancelJob: (id) => runner.cancel(id),
+        retryJob: (id) => runner.retry(id),
+        listSessions: () => [],
+      })
+    );
+
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/admin`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const authed = { headers: { authorization: "Bearer secret" } };
+
+  it("rejects requests without the admin token", async () => {
+    const response = await fetch(`${baseUrl}/jobs`, { headers: { authorization: "Bearer wrong" } });
+    expect(response.status).toBe(401);
+  });
+
+  it("lists jobs newest first and filters by status", async () => {
+    jobStore.enqueue("first", "issue_comment", payload);
+    jobStore.markRunning("first");
+    jobStore.enqueue("second", "issue_comment", payload);
+
+    const all = await (await fetch(`${baseUrl}/jobs`, authed)).json();
+    expect(all.jobs.map((job: { deliveryId: string }) => job.deliveryId)).toEqual(["second", "first"]);
+
+    const running = await (await fetch(`${baseUrl}/jobs?status=running`, authed)).json();
+    expect(running.jobs).toHaveLength(1);
+    expect(running.jobs[0].deliveryId).toBe("first");
+  });
+
+  it("returns 404 for unknown jobs", async () => {
+    const response = await fetch(`${baseUrl}/jobs/missing`, authed);
+    expect(response.status).toBe(404);
+  });
+
+  it("cancels running jobs through their signal and refuses finished ones", async () => {
+    let aborted = false;
+    handler = (_job, signal) =>
+      new Promise((resolve) => {
+        signal.addEventListener("abort", () => {
+          aborted = true;
+          resolve();
+        });
+      });
+    runner.schedule(jobStore.enqueue("running", "issue_comment", payload));
+    jobStore.enqueue("done", "issue_comment", payload);
+    jobStore.markRunning("done");
+    jobStore.markSucceeded("done");
+
+    const ok = await fetch(`${baseUrl}/jobs/running/cancel`, { method: "POST", ...authed });
+    const conflict = await fetch(`${baseUrl}/jobs/done/cancel`, { method: "POST", ...authed });
+
+    expect(ok.status).toBe(200);
+    expect((await ok.json()).job).toMatchObject({ status: "failed", error: "Cancelled" });
+    expect(conflict.status).toBe(409);
+    await workerPool.onIdle();
+    expect(aborted).toBe(true);
+    expect(jobStore.getJob("running")?.status).toBe("failed");
+  });
+
+  it("retries failed jobs", async () => {
+    jobStore.enqueue("failed", "issue_comment", payload);
+    jobStore.markRunning("failed");
+    jobStore.markFailed("failed", "boom");
+
+    const response = await fetch(`${baseUrl}/jobs/failed/retry`, { method: "POST", ...authed });
+    expect(response.status).toBe(202);
+    await workerPool.onIdle();
+    expect(jobStore.getJob("failed")).toMatchObject({ status: "succeeded", attempts: 2 });
+
+    const again = await fetch(`${baseUrl}/jobs/failed/retry`, { method: "POST", ...authed });
+    expect(again.status).toBe(409);
+  });
+});
+
+describe("toJobView", () => {
+  it("extracts repo, issue, command, provider and duration", () => {
+    const store = new JobStore({
+      dir: mkdtempSync(join(tmpdir(), "codeduck-admin-view-")),
+      retentionMs: 10_000,
+      logger: silentLogger,
+    });
+    store.enqueue("job", "issue_comment", payload);
+    store.markRunning("job");
+    store.recordProvider("job", "codex");
+    const job = store.markFailed("job", "boom")!;
+
+    const view = toJobView(job);
+    expect(view.repo).toBe("owner/repo");
+    expect(view.issue).toBe(7);
+    expect(view.command).toBe("review the parser --provider=codex");
+    expect(view.provider).toBe("codex");
+    expect(view.durationMs).not.toBeNull();
+    expect(view.error).toBe("boom");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { ProviderRunOptions } from "../src/agent/providers/types.js";
+import { loadRuntimeConfig } from "../src/config/runtime-config.js";
+import {
+  executeSessionQuery,
+  getSessionInfo,
+  initSessions,
+  listSessions,
+  shutdown,
+} from "../src/agent/client.js";
+
+const runs = vi.hoisted(() => [] as string[]);
+
+vi.mock("../src/agent/providers/registry.js", () => ({
+  resolveProviderId: () => "claude",
+  getProvider: () => ({
+    capabilities: { supportsTools: true, supportsBash: true },
+    runSession: async (options: ProviderRunOptions) => {
+      runs.push(options.sessionKey);
+      options.sessionStore.saveSession(options.sessionKey, {
+        sessionId: `session-${runs.length}`,
+        context: options.context,
+        createdAt: Date.now(),
+        provider: "claude",
+      });
+      return { success: true, result: "done" };
+    },
+  }),
+}));
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  issueNumber: 9,
+  isPR: false,
+  triggeredAt: new Date().toISOString(),
+};
+
+describe("session queries", () => {
+  const sessionDir = mkdtempSync(join(tmpdir(), "codeduck-agent-client-"));
+
+  beforeAll(() => {
+    const { config } = loadRuntimeConfig({});
+    initSessions({ ...config, agents: { ...config.agents, sessionDir } });
+  });
+
+  afterAll(() => {
+    shutdown();
+    rmSync(sessionDir, { recursive: true, force: true });
+  });
+
+  it("keeps ephemeral runs out of the context's conversation", async () => {
+    await executeSessionQuery(context, "triage this", "read", undefined, { ephemeral: true });
+    await executeSessionQuery(context, "triage again", "read", undefined, { ephemeral: true });
+
+    expect(runs).toHaveLength(2);
+    expect(runs[0]).not.toBe(runs[1]);
+    expect(runs[0]).not.toBe("owner/repo#9");
+    expect(getSessionInfo(context)).toBeUndefined();
+    expect(listSessions()).toEqual([]);
+    expect(readdirSync(sessionDir)).toEqual([]);
+
+    await executeSessionQuery(context, "explain", "read");
+    expect(runs[2]).toBe("owner/repo#9");
+    expect(getSessionInfo(context)?.sessionId).toBe("session-3");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
+import { getPermissionLevel, isOwner } from "../src/github/client.js";
+import {
+  authorizeCommand,
+  formatDenial,
+  getUserPermission,
+  invalidatePermissions,
+  meetsPermission,
+  shouldExplainDenial,
+} from "../src/github/authorization.js";
+import { getDefaultRepoConfig, validateRepoConfig } from "../src/config/repo-config.js";
+
+const orgRepo = { name: "repo", owner: { login: "acme", type: "Organization" } };
+const userRepo = { name: "repo", owner: { login: "Alice", type: "User" } };
+
+function mockPermissions(levels: Record<string, { permission: string; role_name: string }>) {
+  passThroughRateLimiter();
+  const getCollaboratorPermissionLevel = vi.fn(async ({ username }: { username: string }) => {
+    if (!levels[username]) {
+      throw Object.assign(new Error("Not Found"), { status: 404 });
+    }
+    return { data: levels[username], headers: {} };
+  });
+  const getMembershipForUserInOrg = vi.fn(async ({ username }: { username: string }) => {
+    if (username !== "dana") {
+      throw Object.assign(new Error("Not Found"), { status: 404 });
+    }
+    return { data: { state: "active" }, headers: {} };
+  });
+  return {
+    getCollaboratorPermissionLevel,
+    octokit: {
+      rest: { repos: { getCollaboratorPermissionLevel }, teams: { getMembershipForUserInOrg } },
+    } as unknown as Octokit,
+  };
+}
+
+describe("repository ownership", () => {
+  it("only matches personal owners, case-insensitively", () => {
+    expect(isOwner(userRepo.owner, "alice")).toBe(true);
+    expect(isOwner(orgRepo.owner, "acme")).toBe(false);
+    expect(isOwner(orgRepo.owner, "alice")).toBe(false);
+  });
+});
+
+describe("permission levels", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("prefers the role name and falls back to the base permission", async () => {
+    const { octokit } = mockPermissions({
+      tom: { permission: "read", role_name: "triage" },
+      cathy: { permission: "write", role_name: "release-manager" },
+    });
+    expect(await getPermissionLevel(octokit, "acme", "repo", "tom")).toBe("triage");
+    expect(await getPermissionLevel(octokit, "acme", "repo", "cathy")).toBe("write");
+    expect(await getPermissionLevel(octokit, "acme", "repo", "ghost")).toBe("none");
+  });
+
+  it("orders levels", () => {
+    expect(meetsPermission("maintain", "write")).toBe(true);
+    expect(meetsPermission("triage", "write")).toBe(false);
+    expect(meetsPermission("none", "read")).toBe(false);
+  });
+});
+
+describe("command authorization", () => {
+  afterEach(() => {
+    invalidatePermissions("acme");
+    vi.restoreAllMocks();
+  });
+
+  it("needs triage for read commands and write for write commands by default", async () => {
+    const { octokit } = mockPermissions({
+      tom: { permission: "read", role_name: "triage" },
+      rita: { permission: "read", role_name: "read" },
+    });
+    const config = getDefaultRepoConfig();
+
+    expect(await authorizeCommand(octokit, orgRepo, "tom", "read", config)).toEqual({ allowed: true, permission: "triage" });
+    expect(await authorizeCommand(octokit, orgRepo, "rita", "read", config)).toMatchObject({ allowed: false, required: "triage" });
+    expect(await authorizeCommand(octokit, orgRepo, "tom", "write", config)).toEqual({
+      allowed: false,
+      permission: "triage",
+      required: "write",
+      reason: "permission",
+    });
+  });
+
+  it("uses the repository's thresholds and allow-lists", async () => {
+    const { octokit } = mockPermissions({
+      walt: { permission: "write", role_name: "write" },
+      dana: { permission: "write", role_name: "maintain" },
+      mia: { permission: "write", role_name: "maintain" },
+    });
+    const { config } = validateRepoConfig({ access: { read: "read", write: "maintain", teams: ["core"] } });
+
+    expect(await authorizeCommand(octokit, orgRepo, "walt", "write", config)).toMatchObject({ allowed: false, reason: "permission" });
+    expect(await authorizeCommand(octokit, orgRepo, "dana", "write", config)).toMatchObject({ allowed: true });
+    expect(await authorizeCommand(octokit, orgRepo, "mia", "write", config)).toMatchObject({ allowed: false, reason: "allow-list" });
+  });
+
+  it("treats personal owners as admins without a lookup", async () => {
+    const { octokit, getCollaboratorPermissionLevel } = mockPermissions({});
+    expect(await authorizeCommand(octokit, userRepo, "alice", "write", getDefaultRepoConfig())).toEqual({
+      allowed: true,
+      permission: "admin",
+    });
+    expect(getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+  });
+
+  it("caches permission levels until they expire or are invalidated", async () => {
+    vi.useFakeTimers();
+    const { octokit, getCollaboratorPermissionLevel } = mockPermissions({
+      walt: { permission: "write", role_name: "write" },
+      rita: { permission: "read", role_name: "read" },
+    });
+    await getUserPermission(octokit, orgRepo, "walt");
+    await getUserPermission(octokit, orgRepo, "Walt");
+    await getUserPermission(octokit, orgRepo, "rita");
+    expect(getCollaboratorPermissionLevel).toHaveBeenCalledTimes(2);
+
+    invalidatePermissions("acme", "repo", "walt");
+    await getUserPermission(octokit, orgRepo, "walt");
+    await getUserPermission(octokit, orgRepo, "rita");
+    expect(getCollaboratorPermissionLevel).toHaveBeenCalledTimes(3);
+
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+    await getUserPermission(octokit, orgRepo, "rita");
+    expect(getCollaboratorPermissionLevel).toHaveBeenCalledTimes(4);
+    vi.useRealTimers();
+  });
+
+  it("explains denials", () => {
+    expect(formatDenial("rita", "write", { allowed: false, permission: "read", required: "write", reason: "permission" }))
+      .toContain("Commands that change code here need **write** access or higher, and your access is **read**");
+    expect(formatDenial("ghost", "read", { allowed: false, permission: "none", required: "triage", reason: "permission" }))
+      .toContain("you don't have access to this repository");
+    expect(formatDenial("mia", "read", { allowed: false, permission: "admin", reason: "allow-list" }))
+      .toContain("listed in this repository's `.codeduck.yml`");
+  });
+
+  it("explains a denial once per user and issue", () => {
+    expect(shouldExplainDenial(orgRepo, 5, "ghost")).toBe(true);
+    expect(shouldExplainDenial(orgRepo, 5, "Ghost")).toBe(false);
+    expect(shouldExplainDenial(orgRepo, 6, "ghost")).toBe(true);
+    expect(shouldExplainDenial(orgRepo, 5, "rita")).toBe(true);
+    expect(shouldExplainDenial(userRepo, 5, "ghost")).toBe(true);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  getAutoReviewConfig,
+  getAutoReviewSkipReason,
+  getDiffSkipReason,
+} from "../src/review/auto-review.js";
+
+const candidate = { action: "opened", draft: false, author: "alice", baseRef: "main" };
+
+function file(filename: string, additions = 1, deletions = 0) {
+  return { filename, status: "modified", additions, deletions };
+}
+
+describe("auto review configuration", () => {
+  it("reads per-repository settings from AUTO_REVIEW", () => {
+    const entries = { "Owner/Repo": { events: ["opened" as const] } };
+    expect(getAutoReviewConfig("owner", "repo", entries)).toEqual({ events: ["opened"] });
+    expect(getAutoReviewConfig("owner", "other", entries)).toBeNull();
+  });
+
+  it("is off when unset", () => {
+    expect(getAutoReviewConfig("owner", "repo", {})).toBeNull();
+  });
+});
+
+describe("auto review event filters", () => {
+  it("reviews every trigger by default but skips drafts", () => {
+    for (const action of ["opened", "ready_for_review", "synchronize"]) {
+      expect(getAutoReviewSkipReason({}, { ...candidate, action })).toBeNull();
+    }
+    expect(getAutoReviewSkipReason({}, { ...candidate, action: "closed" })).toContain("not enabled");
+    expect(getAutoReviewSkipReason({}, { ...candidate, draft: true })).toBe("pull request is a draft");
+    expect(getAutoReviewSkipReason({ includeDrafts: true }, { ...candidate, draft: true })).toBeNull();
+  });
+
+  it("filters on events, authors and base branches", () => {
+    expect(getAutoReviewSkipReason({ events: ["opened"] }, { ...candidate, action: "synchronize" })).not.toBeNull();
+    expect(getAutoReviewSkipReason({ authors: ["Alice"] }, candidate)).toBeNull();
+    expect(getAutoReviewSkipReason({ authors: ["bob"] }, candidate)).toContain("allow-list");
+    expect(getAutoReviewSkipReason({ ignoreAuthors: ["alice"] }, candidate)).toContain("ignored");
+    expect(getAutoReviewSkipReason({ baseBranches: ["release"] }, candidate)).toContain("base branch main");
+  });
+});
+
+describe("auto review diff filters", () => {
+  it("requires a change under the configured paths", () => {
+    const config = { paths: ["src/**/*.ts"] };
+    expect(getDiffSkipReason(config, [file("README.md"), file("src/index.ts")])).toBeNull();
+    expect(getDiffSkipReason(config, [file("src/deep/nested/a.ts")])).toBeNull();
+    expect(getDiffSkipReason(config, [file("README.md"), file("src/a.js")])).toContain("configured paths");
+  });
+
+  it("ignores paths and limits the diff size", () => {
+    const config = { ignorePaths: ["docs/**", "*.lock"], maxDiffLines: 100 };
+    expect(getDiffSkipReason(config, [file("docs/guide.md"), file("yarn.lock")])).toBe("only ignored paths changed");
+    // Ignored files do not count towards the limit
+    expect(getDiffSkipReason(config, [file("yarn.lock", 5000), file("src/a.ts", 60, 40)])).toBeNull();
+    expect(getDiffSkipReason(config, [file("src/a.ts", 80, 40)])).toContain("120 changed lines");
+  });
+});
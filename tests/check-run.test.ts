@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
+import {
+  buildCheckAnnotations,
+  getCheckConclusion,
+  publishReviewCheckRun,
+} from "../src/review/check-run.js";
+import type { ReviewFinding } from "../src/utils/types.js";
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  issueNumber: 7,
+  isPR: true,
+  triggeredAt: new Date().toISOString(),
+};
+
+function finding(severity: ReviewFinding["severity"], line = 3): ReviewFinding {
+  return { path: "src/a.ts", line, severity, message: `${severity} issue` };
+}
+
+// src/a.ts with lines 1-200 added, so every finding above lands on the diff
+const files = [
+  {
+    filename: "src/a.ts",
+    status: "added",
+    additions: 200,
+    deletions: 0,
+    patch: ["@@ -0,0 +1,200 @@", ...Array.from({ length: 200 }, (_, i) => `+line ${i + 1}`)].join("\n"),
+  },
+];
+
+describe("review check conclusions", () => {
+  it("fails on critical or major findings and is neutral otherwise", () => {
+    expect(getCheckConclusion([])).toBe("success");
+    expect(getCheckConclusion([finding("nit"), finding("minor")])).toBe("neutral");
+    expect(getCheckConclusion([finding("nit"), finding("major")])).toBe("failure");
+    expect(getCheckConclusion([finding("critical")])).toBe("failure");
+  });
+
+  it("annotates line ranges with a level per severity", () => {
+    expect(buildCheckAnnotations([{ ...finding("minor", 12), startLine: 10 }, finding("nit")], files)).toEqual([
+      { path: "src/a.ts", startLine: 10, endLine: 12, level: "warning", title: "minor", message: "minor issue" },
+      { path: "src/a.ts", startLine: 3, endLine: 3, level: "notice", title: "nit", message: "nit issue" },
+    ]);
+  });
+
+  it("leaves out findings outside the PR's diff", () => {
+    const outside = [
+      { ...finding("major"), path: "src/untouched.ts" },
+      finding("minor", 250),
+      { ...finding("nit", 201), startLine: 199 },
+    ];
+    expect(buildCheckAnnotations([...outside, finding("critical", 5)], files)).toEqual([
+      expect.objectContaining({ path: "src/a.ts", startLine: 5, endLine: 5, level: "failure" }),
+    ]);
+  });
+});
+
+describe("review check runs", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function mockChecks() {
+    passThroughRateLimiter();
+    const create = vi.fn().mockResolvedValue({ data: { id: 42, html_url: "https://github.com/owner/repo/runs/42" }, headers: {} });
+    const update = vi.fn().mockResolvedValue({ data: {}, headers: {} });
+    return { create, update, octokit: { rest: { checks: { create, update } } } as unknown as Octokit };
+  }
+
+  it("completes the run in one request when the annotations fit", async () => {
+    const { create, update, octokit } = mockChecks();
+
+    const url = await publishReviewCheckRun(octokit, context, "abc123", files, [finding("minor")], "Summary");
+
+    expect(url).toBe("https://github.com/owner/repo/runs/42");
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        head_sha: "abc123",
+        status: "completed",
+        conclusion: "neutral",
+        output: expect.objectContaining({ title: "1 finding", summary: "Summary" }),
+      })
+    );
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it("sends annotations in batches of 50 and completes with the last one", async () => {
+    const { create, update, octokit } = mockChecks();
+    const findings = Array.from({ length: 120 }, (_, i) => finding("major", i + 1));
+
+    await publishReviewCheckRun(octokit, context, "abc123", files, findings, "Summary");
+
+    expect(create.mock.calls[0][0]).toMatchObject({ status: "in_progress" });
+    expect(create.mock.calls[0][0].output.annotations).toHaveLength(50);
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(update.mock.calls[0][0]).not.toHaveProperty("status");
+    expect(update.mock.calls[0][0].output.annotations).toHaveLength(50);
+    expect(update.mock.calls[1][0]).toMatchObject({ check_run_id: 42, status: "completed", conclusion: "failure" });
+    expect(update.mock.calls[1][0].output.annotations).toHaveLength(20);
+  });
+
+  it("completes the run when adding a batch of annotations fails", async () => {
+    const { create, update, octokit } = mockChecks();
+    update.mockRejectedValueOnce(Object.assign(new Error("Server Error"), { status: 500 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const findings = Array.from({ length: 120 }, (_, i) => finding("minor", i + 1));
+
+    const url = await publishReviewCheckRun(octokit, context, "abc123", files, findings, "Summary");
+
+    expect(url).toBe("https://github.com/owner/repo/runs/42");
+    expect(create.mock.calls[0][0]).toMatchObject({ status: "in_progress" });
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(update.mock.calls[1][0]).toEqual({
+      owner: "owner",
+      repo: "repo",
+      check_run_id: 42,
+      status: "completed",
+      conclusion: "neutral",
+    });
+  });
+});
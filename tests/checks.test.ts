@@ -0,0 +1,153 @@
+import { afterEach, describe, it, expect } from "vitest";
+import { mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildRepairPrompt,
+  detectCheckCommands,
+  formatCheckReport,
+  getRepairAttempts,
+  getRepoCheckConfig,
+  runChecks,
+} from "../src/pipeline/checks.js";
+
+function makeRepo(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), "codeduck-checks-"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+describe("check detection", () => {
+  it("installs dependencies and runs npm test and lint scripts", () => {
+    const dir = makeRepo({
+      "package.json": JSON.stringify({ scripts: { test: "vitest run", lint: "eslint ." } }),
+      "package-lock.json": "{}",
+    });
+    expect(detectCheckCommands(dir).map((command) => command.name)).toEqual(["npm ci", "npm test", "npm run lint"]);
+  });
+
+  it("ignores the npm init placeholder test script and falls back to make test", () => {
+    const dir = makeRepo({
+      "package.json": JSON.stringify({ scripts: { test: "echo \"Error: no test specified\" && exit 1" } }),
+      Makefile: "build:\n\tcc main.c\n\ntest: build\n\t./run-tests\n",
+    });
+    expect(detectCheckCommands(dir).map((command) => command.name)).toEqual(["make test"]);
+  });
+
+  it("prefers a configured command and finds nothing in bare repositories", () => {
+    const dir = makeRepo({ "package.json": JSON.stringify({ scripts: { test: "jest" } }) });
+    expect(detectCheckCommands(dir, "npm run ci")).toEqual([{ name: "npm run ci", file: "sh", args: ["-c", "npm run ci"] }]);
+    expect(detectCheckCommands(makeRepo({}))).toEqual([]);
+  });
+});
+
+describe("check configuration", () => {
+  it("reads per-repository settings from REPO_CHECKS", () => {
+    const entries = { "Owner/Repo": { command: "make ci", repairAttempts: 3 } };
+    const config = getRepoCheckConfig("owner", "repo", entries);
+    expect(config.command).toBe("make ci");
+    expect(getRepairAttempts(config)).toBe(3);
+    expect(getRepoCheckConfig("owner", "other", entries)).toEqual({});
+  });
+
+  it("falls back to CHECK_REPAIR_ATTEMPTS and then one attempt", () => {
+    expect(getRepairAttempts({}, 0)).toBe(0);
+    expect(getRepairAttempts({})).toBe(1);
+  });
+});
+
+describe("running checks", () => {
+  it("stops at the first failure and keeps its output", async () => {
+    const dir = makeRepo({});
+    const results = await runChecks(dir, [
+      { name: "first", file: "sh", args: ["-c", "echo ok"] },
+      { name: "second", file: "sh", args: ["-c", "echo 'assertion failed' >&2; exit 3"] },
+      { name: "third", file: "sh", args: ["-c", "echo never"] },
+    ]);
+
+    expect(results.map((result) => result.name)).toEqual(["first", "second"]);
+    expect(results[0].passed).toBe(true);
+    expect(results[1]).toMatchObject({ passed: false, exitCode: 3, timedOut: false });
+    expect(results[1].output).toContain("assertion failed");
+  });
+
+  it("does not expose CodeDuck credentials to check commands", async () => {
+    process.env.GITHUB_APP_PRIVATE_KEY = "secret-key";
+    try {
+      const [result] = await runChecks(makeRepo({}), [
+        { name: "env", file: "sh", args: ["-c", "echo \"key=$GITHUB_APP_PRIVATE_KEY\""] },
+      ]);
+      expect(result.output).toBe("key=");
+    } finally {
+      delete process.env.GITHUB_APP_PRIVATE_KEY;
+    }
+  });
+
+  it("marks commands that run too long as timed out", async () => {
+    const [result] = await runChecks(makeRepo({}), [{ name: "slow", file: "sh", args: ["-c", "sleep 5"] }], {
+      timeoutMs: 100,
+    });
+    expect(result).toMatchObject({ passed: false, timedOut: true });
+  });
+
+  it("stops processes the check started", async () => {
+    const dir = makeRepo({});
+    // Killed processes may linger as zombies until they are reaped
+    const isAlive = (pid: number) => {
+      try {
+        return !/^\d+ \(.*\) Z/.test(readFileSync(`/proc/${pid}/stat`, "utf-8"));
+      } catch {
+        return false;
+      }
+    };
+    const waitForExit = async (pid: number) => {
+      for (let i = 0; i < 50 && isAlive(pid); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return !isAlive(pid);
+    };
+
+    const [timedOut] = await runChecks(dir, [
+      { name: "hangs", file: "sh", args: ["-c", "sleep 30 & echo $! > hangs.pid; wait"] },
+    ], { timeoutMs: 200 });
+    expect(timedOut.timedOut).toBe(true);
+    expect(await waitForExit(Number(readFileSync(join(dir, "hangs.pid"), "utf-8")))).toBe(true);
+
+    const [leftover] = await runChecks(dir, [
+      { name: "leaves a server", file: "sh", args: ["-c", "sleep 30 & echo $! > server.pid"] },
+    ]);
+    expect(leftover.passed).toBe(true);
+    expect(await waitForExit(Number(readFileSync(join(dir, "server.pid"), "utf-8")))).toBe(true);
+  });
+});
+
+describe("check reports", () => {
+  const failed = {
+    name: "npm test",
+    passed: false,
+    exitCode: 1,
+    timedOut: false,
+    durationMs: 10,
+    output: "FAIL src/a.test.ts",
+  };
+
+  it("lists results and folds failing output", () => {
+    const report = formatCheckReport({
+      results: [{ ...failed, name: "npm ci", passed: true, exitCode: 0 }, failed],
+      repairAttempts: 2,
+    });
+    expect(report).toContain("- `npm ci`: passed");
+    expect(report).toContain("- `npm test`: **failed (exit code 1)**");
+    expect(report).toContain("_After 2 repair attempts._");
+    expect(report).toContain("<summary>Output of <code>npm test</code></summary>");
+    expect(report).toContain("FAIL src/a.test.ts");
+  });
+
+  it("feeds failures back to the agent", () => {
+    const prompt = buildRepairPrompt([failed]);
+    expect(prompt).toContain("FAIL src/a.test.ts");
+    expect(prompt).toContain("Do not disable, skip or delete tests");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GitError, gitAuthEnv, runGit } from "../src/workspace/git.js";
+
+describe("git helpers", () => {
+  it("returns stdout of successful commands", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "codeduck-git-"));
+    await runGit(["init", "-q"], { cwd: dir });
+    const output = await runGit(["rev-parse", "--is-inside-work-tree"], { cwd: dir });
+    expect(output.trim()).toBe("true");
+  });
+
+  it("throws GitError with secrets redacted", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "codeduck-git-"));
+    const error = await runGit(["checkout", "ghs_secret_token"], { cwd: dir, secrets: ["ghs_secret_token"] }).catch(
+      (e) => e
+    );
+    expect(error).toBeInstanceOf(GitError);
+    expect(error.message).not.toContain("ghs_secret_token");
+  });
+
+  it("passes credentials as an http header rather than in the URL", () => {
+    const env = gitAuthEnv("token123");
+    expect(env.GIT_CONFIG_KEY_0).toBe("http.https://github.com/.extraheader");
+    expect(env.GIT_CONFIG_VALUE_0).toBe(`AUTHORIZATION: basic ${Buffer.from("x-access-token:token123").toString("base64")}`);
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, vi, afterEach } from "vitest";
 import type { Octokit } from "@octokit/rest";
-import { createBranch } from "../src/github/client.js";
-import { rateLimiter } from "../src/github/rate-limiter.js";
+import { commitChanges, createBranch, listReviewThread } from "../src/github/client.js";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
 
 describe("github client", () => {
   afterEach(() => {
@@ -9,12 +9,7 @@ describe("github client", () => {
   });
 
   it("createBranch uses rate limiter for each API call", async () => {
-    const executeSpy = vi
-      .spyOn(rateLimiter, "executeWithRetry")
-      .mockImplementation(async (fn) => {
-        const result = await fn();
-        return result.data as unknown as object;
-      });
+    const executeSpy = passThroughRateLimiter();
 
     const octokit = {
       rest: {
@@ -37,4 +32,130 @@ describe("github client", () => {
     expect(octokit.rest.git.getRef).toHaveBeenCalledTimes(1);
     expect(octokit.rest.git.createRef).toHaveBeenCalledTimes(1);
   });
+
+  it("commitChanges builds blobs, a tree and one commit, then fast-forwards the branch", async () => {
+    const executeSpy = passThroughRateLimiter();
+
+    let blobCount = 0;
+    const octokit = {
+      rest: {
+        git: {
+          getCommit: vi.fn().mockResolvedValue({ data: { tree: { sha: "base-tree" } }, headers: {} }),
+          createBlob: vi.fn().mockImplementation(async () => ({ data: { sha: `blob-${++blobCount}` }, headers: {} })),
+          createTree: vi.fn().mockResolvedValue({ data: { sha: "new-tree" }, headers: {} }),
+          createCommit: vi.fn().mockResolvedValue({ data: { sha: "new-commit" }, headers: {} }),
+          updateRef: vi.fn().mockResolvedValue({ data: {}, headers: {} }),
+          createRef: vi.fn(),
+        },
+      },
+    } as unknown as Octokit;
+
+    const sha = await commitChanges(octokit, "owner", "repo", {
+      branch: "feature",
+      parentSha: "parent",
+      message: "Update files",
+      changes: [
+        { action: "modify", path: "src/a.ts", content: Buffer.from("export {};\n") },
+        { action: "add", path: "logo.png", content: Buffer.from([0x89, 0x50, 0x00, 0xff]) },
+        { action: "add", path: "run.sh", content: Buffer.from("#!/bin/sh\n"), mode: "100755" },
+        { action: "delete", path: "old.txt" },
+        { action: "delete", path: "link", mode: "120000" },
+        {
+          action: "rename",
+          previousPath: "bin/tool",
+          previousMode: "100755",
+          path: "bin/tool.sh",
+          content: Buffer.from("#!/bin/sh\n"),
+          mode: "100755",
+        },
+      ],
+    });
+
+    expect(sha).toBe("new-commit");
+    expect(octokit.rest.git.createBlob).toHaveBeenCalledWith(
+      expect.objectContaining({ content: Buffer.from([0x89, 0x50, 0x00, 0xff]).toString("base64"), encoding: "base64" })
+    );
+    expect(octokit.rest.git.createTree).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      base_tree: "base-tree",
+      tree: [
+        { path: "src/a.ts", mode: "100644", type: "blob", sha: "blob-1" },
+        { path: "logo.png", mode: "100644", type: "blob", sha: "blob-2" },
+        { path: "run.sh", mode: "100755", type: "blob", sha: "blob-3" },
+        { path: "old.txt", mode: "100644", type: "blob", sha: null },
+        { path: "link", mode: "120000", type: "blob", sha: null },
+        { path: "bin/tool", mode: "100755", type: "blob", sha: null },
+        { path: "bin/tool.sh", mode: "100755", type: "blob", sha: "blob-4" },
+      ],
+    });
+    expect(octokit.rest.git.createCommit).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Update files", tree: "new-tree", parents: ["parent"] })
+    );
+    expect(octokit.rest.git.updateRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "heads/feature", sha: "new-commit", force: false })
+    );
+    expect(octokit.rest.git.createRef).not.toHaveBeenCalled();
+    // getCommit + 4 blobs + tree + commit + ref
+    expect(executeSpy).toHaveBeenCalledTimes(8);
+  });
+
+  it("commitChanges creates new branches and rejects empty change sets", async () => {
+    passThroughRateLimiter();
+
+    const octokit = {
+      rest: {
+        git: {
+          getCommit: vi.fn().mockResolvedValue({ data: { tree: { sha: "base-tree" } }, headers: {} }),
+          createBlob: vi.fn().mockResolvedValue({ data: { sha: "blob" }, headers: {} }),
+          createTree: vi.fn().mockResolvedValue({ data: { sha: "tree" }, headers: {} }),
+          createCommit: vi.fn().mockResolvedValue({ data: { sha: "commit" }, headers: {} }),
+          updateRef: vi.fn(),
+          createRef: vi.fn().mockResolvedValue({ data: {}, headers: {} }),
+        },
+      },
+    } as unknown as Octokit;
+
+    await commitChanges(octokit, "owner", "repo", {
+      branch: "codeduck/issue-1",
+      parentSha: "parent",
+      message: "Add file",
+      changes: [{ action: "add", path: "a.txt", content: Buffer.from("a") }],
+      createBranch: true,
+    });
+    expect(octokit.rest.git.createRef).toHaveBeenCalledWith(
+      expect.objectContaining({ ref: "refs/heads/codeduck/issue-1", sha: "commit" })
+    );
+    expect(octokit.rest.git.updateRef).not.toHaveBeenCalled();
+
+    await expect(
+      commitChanges(octokit, "owner", "repo", { branch: "b", parentSha: "p", message: "m", changes: [] })
+    ).rejects.toThrow("No changes to commit");
+  });
+
+  it("listReviewThread returns the root comment and its replies in order", async () => {
+    const executeSpy = passThroughRateLimiter();
+    const filler = Array.from({ length: 98 }, (_, i) => ({
+      id: 100 + i,
+      body: "elsewhere",
+      created_at: "2026-01-01T00:00:00Z",
+      user: { login: "c" },
+    }));
+    const pages = [
+      [
+        { id: 3, in_reply_to_id: 1, body: "second reply", created_at: "2026-01-01T02:00:00Z", user: { login: "b" } },
+        { id: 1, body: "root", created_at: "2026-01-01T00:00:00Z", user: { login: "a" } },
+        ...filler,
+      ],
+      [{ id: 4, in_reply_to_id: 1, body: "first reply", created_at: "2026-01-01T01:30:00Z", user: null }],
+    ];
+    const listReviewComments = vi.fn(async ({ page }: { page: number }) => ({ data: pages[page - 1], headers: {} }));
+    const octokit = { rest: { pulls: { listReviewComments } } } as unknown as Octokit;
+
+    const thread = await listReviewThread(octokit, "owner", "repo", 5, 1);
+    expect(thread.map((comment) => comment.body)).toEqual(["root", "first reply", "second reply"]);
+    expect(thread[1].author).toBeNull();
+    expect(listReviewComments).toHaveBeenCalledTimes(2);
+    expect(executeSpy).toHaveBeenCalledTimes(2);
+  });
 });
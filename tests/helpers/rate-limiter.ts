@@ -0,0 +1,9 @@
+import { vi } from "vitest";
+import { rateLimiter } from "../../src/github/rate-limiter.js";
+
+/**
+ * Run rate-limited calls directly and unwrap their data, like the real limiter
+ */
+export function passThroughRateLimiter() {
+  return vi.spyOn(rateLimiter, "executeWithRetry").mockImplementation(async (fn) => (await fn()).data as unknown as object);
+}
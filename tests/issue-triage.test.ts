@@ -0,0 +1,104 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
+import {
+  applyTriageLabels,
+  buildDuplicateQuery,
+  buildTriagePrompt,
+  formatTriageComment,
+  getIssueTriageConfig,
+  parseTriageOutput,
+} from "../src/triage/issue-triage.js";
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  issueNumber: 30,
+  isPR: false,
+  triggeredAt: new Date().toISOString(),
+};
+
+const labels = [
+  { name: "bug", description: "Something is broken" },
+  { name: "Needs Repro", description: null },
+  { name: "enhancement", description: null },
+];
+
+const candidates = [
+  { number: 12, title: "Crash when config file is missing", state: "closed", url: "https://github.com/owner/repo/issues/12" },
+  { number: 18, title: "Config reload is slow", state: "open", url: "https://github.com/owner/repo/issues/18" },
+];
+
+describe("issue triage configuration", () => {
+  it("reads per-repository settings from ISSUE_TRIAGE", () => {
+    const entries = { "OWNER/repo": { labels: "apply" as const } };
+    expect(getIssueTriageConfig("owner", "repo", entries)).toEqual({ labels: "apply" });
+    expect(getIssueTriageConfig("owner", "other", entries)).toBeNull();
+  });
+});
+
+describe("issue triage", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("searches for duplicates by the title's distinctive words", () => {
+    expect(buildDuplicateQuery("App crashes when the config file is missing!")).toBe(
+      "app OR crashes OR config OR file OR missing in:title"
+    );
+    expect(buildDuplicateQuery("Why?")).toBeNull();
+  });
+
+  it("only asks for the enabled behaviors", () => {
+    const prompt = buildTriagePrompt(context, { labels: "off", duplicates: false }, "(history)", labels, candidates);
+    expect(prompt).toContain("Classify the issue");
+    expect(prompt).toContain("list short questions");
+    expect(prompt).not.toContain("Pick the labels");
+    expect(prompt).not.toContain("Decide which of the candidate issues");
+  });
+
+  it("keeps only existing labels and offered duplicates", () => {
+    const text = "```codeduck-triage\n" + JSON.stringify({
+      type: "bug",
+      labels: ["BUG", "needs repro", "invented"],
+      missingDetails: ["Which version are you using?", ""],
+      duplicates: [12, 99],
+    }) + "\n```";
+
+    expect(parseTriageOutput(text, labels, candidates)).toEqual({
+      type: "bug",
+      labels: ["bug", "Needs Repro"],
+      missingDetails: ["Which version are you using?"],
+      duplicates: [12],
+    });
+    expect(parseTriageOutput("no block", labels, candidates)).toBeNull();
+  });
+
+  it("renders the enabled sections of the triage comment", () => {
+    const triage = { type: "bug" as const, labels: ["bug"], missingDetails: ["Steps to reproduce?"], duplicates: [12] };
+
+    const comment = formatTriageComment({}, triage, candidates, false);
+    expect(comment).toContain("**Type:** bug");
+    expect(comment).toContain("**Suggested labels:** `bug`");
+    expect(comment).toContain("- #12 Crash when config file is missing (closed)");
+    expect(comment).toContain("- Steps to reproduce?");
+
+    const quiet = formatTriageComment({ classify: false, askForDetails: false }, triage, candidates, true);
+    expect(quiet).toContain("**Labels added:** `bug`");
+    expect(quiet).not.toContain("**Type:**");
+    expect(quiet).not.toContain("Steps to reproduce?");
+  });
+
+  it("applies labels only in apply mode", async () => {
+    passThroughRateLimiter();
+    const addLabels = vi.fn().mockResolvedValue({ data: [], headers: {} });
+    const octokit = { rest: { issues: { addLabels } } } as unknown as Octokit;
+    const triage = { type: "bug" as const, labels: ["bug"], missingDetails: [], duplicates: [] };
+
+    expect(await applyTriageLabels(octokit, context, { labels: "suggest" }, triage)).toBe(false);
+    expect(addLabels).not.toHaveBeenCalled();
+
+    expect(await applyTriageLabels(octokit, context, { labels: "apply" }, triage)).toBe(true);
+    expect(addLabels).toHaveBeenCalledWith(expect.objectContaining({ issue_number: 30, labels: ["bug"] }));
+  });
+});
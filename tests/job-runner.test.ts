@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JobStore, type JobRecord } from "../src/jobs/job-store.js";
+import { WorkerPool } from "../src/jobs/worker-pool.js";
+import { JobRunner, type JobHandler } from "../src/jobs/job-runner.js";
+
+const silentLogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const payload = {
+  comment: { body: "@codeduck implement it", id: 1 },
+  issue: { number: 3 },
+  repository: { full_name: "owner/repo", name: "repo", owner: { login: "owner" } },
+};
+
+/**
+ * A handler that runs until its job is aborted or released
+ */
+function blockingHandler() {
+  const signals = new Map<string, AbortSignal>();
+  const releases = new Map<string, () => void>();
+  const handler: JobHandler = (job, signal) => {
+    signals.set(job.id, signal);
+    return new Promise((resolve) => {
+      releases.set(job.id, resolve);
+      signal.addEventListener("abort", () => resolve());
+    });
+  };
+  return { handler, signals, releases };
+}
+
+describe("JobRunner", () => {
+  let store: JobStore;
+  let pool: WorkerPool;
+
+  beforeEach(() => {
+    store = new JobStore({
+      dir: mkdtempSync(join(tmpdir(), "codeduck-job-runner-")),
+      retentionMs: 10_000,
+      logger: silentLogger,
+    });
+    pool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+  });
+
+  function createRunner(handler: JobHandler, extra: Partial<ConstructorParameters<typeof JobRunner>[0]> = {}) {
+    return new JobRunner({ store, pool, handler, logger: silentLogger, ...extra });
+  }
+
+  it("aborts only the cancelled job's signal", async () => {
+    const { handler, signals, releases } = blockingHandler();
+    pool = new WorkerPool({ concurrency: 2, logger: silentLogger });
+    const runner = createRunner(handler);
+
+    runner.schedule(store.enqueue("a", "issue_comment", payload));
+    runner.schedule(store.enqueue("b", "issue_comment", payload));
+    expect(runner.cancel("a")).toBe(true);
+
+    expect(signals.get("a")?.aborted).toBe(true);
+    expect(signals.get("b")?.aborted).toBe(false);
+    releases.get("b")?.();
+    await pool.onIdle();
+
+    expect(store.getJob("a")).toMatchObject({ status: "failed", error: "Cancelled" });
+    expect(store.getJob("b")?.status).toBe("succeeded");
+    expect(runner.cancel("b")).toBe(false);
+  });
+
+  it("removes queued jobs from the pool without running them", async () => {
+    const { handler, releases } = blockingHandler();
+    const runner = createRunner(handler);
+    runner.schedule(store.enqueue("first", "issue_comment", payload));
+    runner.schedule(store.enqueue("second", "issue_comment", payload));
+
+    expect(runner.cancel("second")).toBe(true);
+    expect(pool.has("second")).toBe(false);
+    releases.get("first")?.();
+    await pool.onIdle();
+
+    expect(releases.has("second")).toBe(false);
+    expect(store.getJob("second")).toMatchObject({ status: "failed", attempts: 0 });
+  });
+
+  it("retries failed jobs once a cancelled run has wound down", async () => {
+    let finishCancelledRun = () => {};
+    let runs = 0;
+    const runner = createRunner(async (_job, signal) => {
+      runs++;
+      if (runs === 1) {
+        // The first run takes a moment to notice the abort
+        await new Promise<void>((resolve) => signal.addEventListener("abort", () => (finishCancelledRun = resolve)));
+      }
+    });
+
+    runner.schedule(store.enqueue("job", "issue_comment", payload));
+    runner.cancel("job");
+    expect(runner.retry("job")).toBe(false);
+
+    finishCancelledRun();
+    await pool.onIdle();
+    expect(runner.retry("job")).toBe(true);
+    await pool.onIdle();
+    expect(store.getJob("job")).toMatchObject({ status: "succeeded", attempts: 2 });
+  });
+
+  it("records handler errors and runs urgent jobs outside the pool", async () => {
+    const { handler, releases } = blockingHandler();
+    const seen: string[] = [];
+    const runner = createRunner(
+      async (job: JobRecord, signal) => {
+        seen.push(job.id);
+        if (job.id === "broken") throw new Error("boom");
+        if (job.id === "busy") await handler(job, signal);
+      },
+      { isUrgent: (job) => job.id === "stop" }
+    );
+
+    runner.schedule(store.enqueue("busy", "issue_comment", payload));
+    runner.schedule(store.enqueue("stop", "issue_comment", payload));
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(seen).toEqual(["busy", "stop"]);
+    expect(store.getJob("stop")?.status).toBe("succeeded");
+
+    runner.schedule(store.enqueue("broken", "issue_comment", payload));
+    releases.get("busy")?.();
+    await pool.onIdle();
+    expect(store.getJob("broken")).toMatchObject({ status: "failed", error: "boom" });
+  });
+});
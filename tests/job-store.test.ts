@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { existsSync, mkdtempSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JobStore } from "../src/jobs/job-store.js";
+
+const silentLogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function makeTempDir() {
+  return mkdtempSync(join(tmpdir(), "codeduck-job-store-"));
+}
+
+const payload = {
+  comment: { body: "@codeduck help", id: 1 },
+  issue: { number: 2 },
+  repository: { full_name: "owner/repo", name: "repo", owner: { login: "owner" } },
+};
+
+describe("JobStore", () => {
+  it("persists job files with 0600 permissions", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: 1000, logger: silentLogger });
+
+    store.enqueue("delivery-1", "issue_comment", payload);
+
+    const mode = statSync(store.getJobFilePath("delivery-1")).mode & 0o777;
+    expect(mode).toBe(0o600);
+  });
+
+  it("tracks status transitions and attempts", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: 1000, logger: silentLogger });
+
+    store.enqueue("delivery-2", "issue_comment", payload);
+    expect(store.markRunning("delivery-2")?.attempts).toBe(1);
+
+    const failed = store.markFailed("delivery-2", "boom");
+    expect(failed?.status).toBe("failed");
+    expect(failed?.error).toBe("boom");
+    expect(failed?.finishedAt).toBeDefined();
+
+    // The provider belongs to a single run
+    store.recordProvider("delivery-2", "codex");
+    expect(store.getJob("delivery-2")?.provider).toBe("codex");
+    expect(store.markRunning("delivery-2")?.provider).toBeUndefined();
+  });
+
+  it("recovers queued and interrupted jobs after restart", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: 10_000, logger: silentLogger });
+
+    store.enqueue("queued", "issue_comment", payload);
+    store.enqueue("running", "issue_comment", payload);
+    store.markRunning("running");
+    store.enqueue("done", "issue_comment", payload);
+    store.markRunning("done");
+    store.markSucceeded("done");
+
+    const reloaded = new JobStore({ dir, retentionMs: 10_000, logger: silentLogger });
+    const recovered = reloaded.loadAllPersistedJobs();
+
+    expect(recovered.queued.map((job) => job.id)).toEqual(["queued"]);
+    expect(recovered.interrupted.map((job) => job.id)).toEqual(["running"]);
+    expect(reloaded.getJob("done")?.status).toBe("succeeded");
+  });
+
+  it("keeps the attempt count when a delivery is re-enqueued", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: 1000, logger: silentLogger });
+
+    store.enqueue("delivery-3", "issue_comment", payload);
+    store.markRunning("delivery-3");
+    store.markFailed("delivery-3", "boom");
+
+    const requeued = store.enqueue("delivery-3", "issue_comment", payload);
+    expect(requeued.status).toBe("queued");
+    expect(requeued.attempts).toBe(1);
+    expect(requeued.error).toBeUndefined();
+  });
+
+  it("cleans up finished jobs past retention but keeps active ones", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: -1, logger: silentLogger });
+
+    store.enqueue("finished", "issue_comment", payload);
+    store.markRunning("finished");
+    store.markSucceeded("finished");
+    store.enqueue("active", "issue_comment", payload);
+
+    store.cleanupFinishedJobs();
+
+    expect(store.getJob("finished")).toBeUndefined();
+    expect(existsSync(store.getJobFilePath("finished"))).toBe(false);
+    expect(store.getJob("active")?.status).toBe("queued");
+  });
+
+  it("removes corrupted job files during load", () => {
+    const dir = makeTempDir();
+    const store = new JobStore({ dir, retentionMs: 1000, logger: silentLogger });
+    const filePath = store.getJobFilePath("corrupt");
+
+    writeFileSync(filePath, "{not valid json");
+    expect(() => store.loadAllPersistedJobs()).not.toThrow();
+    expect(existsSync(filePath)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { fenceCode, GITHUB_COMMENT_LIMIT, paginateMarkdown } from "../src/utils/markdown.js";
+
+function paragraph(label: string, length: number): string {
+  return `${label} ${"word ".repeat(Math.floor(length / 5))}`.trim();
+}
+
+function countFences(text: string): number {
+  return (text.match(/^```/gm) ?? []).length;
+}
+
+describe("fenceCode", () => {
+  it("uses a fence longer than any backtick run in the content", () => {
+    expect(fenceCode("a ``` b", "md")).toBe("````md\na ``` b\n````");
+  });
+});
+
+describe("paginateMarkdown", () => {
+  it("leaves short answers alone", () => {
+    expect(paginateMarkdown("# Title\n\nShort answer.")).toEqual(["# Title\n\nShort answer."]);
+  });
+
+  it("splits at paragraph boundaries and labels the parts", () => {
+    const text = [paragraph("first", 400), paragraph("second", 400), paragraph("third", 400)].join("\n\n");
+    const pages = paginateMarkdown(text, 900);
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0].startsWith("_(part 1/2)_\n\nfirst")).toBe(true);
+    expect(pages[1].startsWith("_(part 2/2)_\n\nthird")).toBe(true);
+    for (const page of pages) {
+      expect(page.length).toBeLessThanOrEqual(900);
+    }
+  });
+
+  it("never splits inside a code block", () => {
+    const code = "```ts\n" + Array.from({ length: 20 }, (_, i) => `const line${i} = ${i};`).join("\n\n") + "\n```";
+    const text = [paragraph("intro", 500), code, paragraph("outro", 200)].join("\n\n");
+    const pages = paginateMarkdown(text, 900);
+
+    for (const page of pages) {
+      expect(countFences(page) % 2).toBe(0);
+    }
+    expect(pages.some((page) => page.includes("const line0 = 0;\n\nconst line1 = 1;"))).toBe(true);
+  });
+
+  it("re-fences code blocks too big for one page and folds them", () => {
+    const code = "```\n" + Array.from({ length: 400 }, (_, i) => `line ${i}`).join("\n") + "\n```";
+    const pages = paginateMarkdown(code, 1500);
+
+    expect(pages.length).toBeGreaterThan(1);
+    for (const page of pages) {
+      expect(page.length).toBeLessThanOrEqual(1500);
+      expect(countFences(page)).toBe(2);
+      expect(page).toContain("<details>\n<summary>Code (");
+    }
+    expect(pages.join("\n")).toContain("line 399");
+  });
+
+  it("starts a new page at a heading rather than splitting its section", () => {
+    const text = [
+      "# One",
+      paragraph("a", 300),
+      paragraph("b", 300),
+      "## Two",
+      paragraph("c", 100),
+      paragraph("d", 300),
+    ].join("\n\n");
+    const pages = paginateMarkdown(text, 900);
+
+    expect(pages[1]).toContain("## Two");
+    expect(pages[1]).toContain("\n\nc word");
+  });
+
+  it("keeps <details> sections whole", () => {
+    const details = `<details>\n<summary>Log</summary>\n\n${paragraph("log", 200)}\n\n${paragraph("more", 200)}\n\n</details>`;
+    const pages = paginateMarkdown([paragraph("intro", 600), details].join("\n\n"), 900);
+
+    expect(pages[1]).toContain("<details>");
+    expect(pages[1]).toContain("</details>");
+  });
+
+  it("keeps default pages under GitHub's comment limit", () => {
+    const text = Array.from({ length: 50 }, (_, i) => paragraph(`p${i}`, 5000)).join("\n\n");
+    for (const page of paginateMarkdown(text)) {
+      expect(page.length).toBeLessThan(GITHUB_COMMENT_LIMIT);
+    }
+  });
+});
@@ -4,6 +4,7 @@ import {
   hasCodeDuckMention,
   extractCommand,
   getModeDescription,
+  isConfigCommand,
   isStopCommand,
 } from "../src/commands/parser.js";
 
@@ -56,6 +57,23 @@ describe("command parser", () => {
     expect(result?.provider).toBe("claude");
   });
 
+  it("parses dry-run flag next to provider flag", () => {
+    const result = parseCommand("@codeduck fix flaky test --dry-run --provider=codex");
+    expect(result?.action).toBe("fix");
+    expect(result?.target).toBe("flaky test");
+    expect(result?.provider).toBe("codex");
+    expect(result?.dryRun).toBe(true);
+    expect(parseCommand("@codeduck fix flaky test")?.dryRun).toBe(false);
+  });
+
+  it("parses the full-review flag", () => {
+    const result = parseCommand("@codeduck review --full error handling");
+    expect(result?.action).toBe("review");
+    expect(result?.target).toBe("error handling");
+    expect(result?.full).toBe(true);
+    expect(parseCommand("@codeduck review the fullness check")?.full).toBe(false);
+  });
+
   it("returns null when only mention exists", () => {
     const result = parseCommand("@codeduck");
     expect(result).toBeNull();
@@ -90,6 +108,18 @@ describe("stop detection", () => {
   });
 });
 
+describe("config command detection", () => {
+  it("matches config on its own", () => {
+    expect(isConfigCommand("config")).toBe(true);
+    expect(isConfigCommand(" Configuration ")).toBe(true);
+  });
+
+  it("does not match requests mentioning config", () => {
+    expect(isConfigCommand("config the linter")).toBe(false);
+    expect(isConfigCommand("explain the config loader")).toBe(false);
+  });
+});
+
 describe("mode description", () => {
   it("returns human readable descriptions", () => {
     expect(getModeDescription("read")).toBe("Read-only analysis");
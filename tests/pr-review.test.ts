@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
+import {
+  buildReviewPrompt,
+  buildReviewSubmission,
+  fetchReviewIncrement,
+  getCommentableLines,
+  getOpenFindings,
+  parseReviewOutput,
+  submitReview,
+} from "../src/review/pr-review.js";
+import type { ReviewFinding } from "../src/utils/types.js";
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  issueNumber: 7,
+  isPR: true,
+  triggeredAt: new Date().toISOString(),
+};
+
+// New file lines 10-14: 10 context, 11-12 added, 13 context (old line 12 removed), 14 added
+const patch = [
+  "@@ -10,4 +10,5 @@ function main() {",
+  " const a = 1;",
+  "+const b = 2;",
+  "+const c = 3;",
+  "-const old = 0;",
+  " return a;",
+  "+// done",
+  "\\ No newline at end of file",
+].join("\n");
+
+const files = [{ filename: "src/main.ts", status: "modified", additions: 3, deletions: 1, patch }];
+
+describe("review output parsing", () => {
+  it("reads the last review block and validates findings", () => {
+    const text = [
+      "I looked at the change.",
+      "```codeduck-review",
+      JSON.stringify({
+        summary: "Looks mostly fine.",
+        findings: [
+          {
+            path: "./src/main.ts",
+            startLine: 11,
+            line: 12,
+            severity: "major",
+            message: "Duplicated",
+            suggestion: "const b = 3;\n",
+          },
+          { path: "src/main.ts", line: 14, severity: "unknown", message: "Odd comment" },
+          { path: "src/main.ts", line: "x", message: "invalid line" },
+          { message: "no path" },
+        ],
+      }),
+      "```",
+    ].join("\n");
+
+    const review = parseReviewOutput(text);
+    expect(review?.summary).toBe("Looks mostly fine.");
+    expect(review?.findings).toEqual([
+      {
+        path: "src/main.ts",
+        startLine: 11,
+        line: 12,
+        severity: "major",
+        message: "Duplicated",
+        suggestion: "const b = 3;",
+      },
+      { path: "src/main.ts", line: 14, severity: "minor", message: "Odd comment" },
+    ]);
+  });
+
+  it("returns null without a parseable block and falls back to prose for the summary", () => {
+    expect(parseReviewOutput("Just some markdown")).toBeNull();
+    expect(parseReviewOutput("```codeduck-review\n{not json\n```")).toBeNull();
+    expect(parseReviewOutput("Overall good.\n```codeduck-review\n{\"findings\": []}\n```")?.summary).toBe("Overall good.");
+  });
+});
+
+describe("review anchoring", () => {
+  it("finds added and context lines in the new file", () => {
+    expect([...getCommentableLines(patch)]).toEqual([10, 11, 12, 13, 14]);
+  });
+
+  it("anchors findings inside the diff and lists the rest in the body", () => {
+    const { body, comments } = buildReviewSubmission(
+      {
+        summary: "Summary text",
+        findings: [
+          {
+            path: "src/main.ts",
+            startLine: 11,
+            line: 12,
+            severity: "major",
+            message: "Duplicated",
+            suggestion: "const b = 3;",
+          },
+          { path: "src/main.ts", line: 40, severity: "nit", message: "Far away" },
+          { path: "README.md", line: 1, severity: "minor", message: "Not in the PR" },
+        ],
+      },
+      files
+    );
+
+    expect(comments).toEqual([
+      {
+        path: "src/main.ts",
+        line: 12,
+        startLine: 11,
+        body: "**major:** Duplicated\n\n```suggestion\nconst b = 3;\n```",
+      },
+    ]);
+    expect(body).toContain("Summary text");
+    expect(body).toContain("**Findings:** 1 major, 1 minor, 1 nit");
+    expect(body).toContain("- `src/main.ts:40` **nit:** Far away");
+    expect(body).toContain("- `README.md:1` **minor:** Not in the PR");
+  });
+});
+
+describe("review submission", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("submits a COMMENT review with multi-line inline comments on the reviewed commit", async () => {
+    passThroughRateLimiter();
+    const createReview = vi.fn().mockResolvedValue({
+      data: { html_url: "https://github.com/owner/repo/pull/7#pullrequestreview-1" },
+      headers: {},
+    });
+    const octokit = { rest: { pulls: { createReview } } } as unknown as Octokit;
+
+    const result = await submitReview(octokit, context, "abc123", files, {
+      summary: "Summary",
+      findings: [{ path: "src/main.ts", startLine: 11, line: 12, severity: "minor", message: "Rename" }],
+    });
+
+    expect(result).toMatchObject({ url: "https://github.com/owner/repo/pull/7#pullrequestreview-1", inlineComments: 1 });
+    expect(result.body).toContain("Summary");
+    expect(createReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pull_number: 7,
+        commit_id: "abc123",
+        event: "COMMENT",
+        comments: [
+          { path: "src/main.ts", line: 12, side: "RIGHT", start_line: 11, start_side: "RIGHT", body: "**minor:** Rename" },
+        ],
+      })
+    );
+  });
+});
+
+describe("incremental reviews", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const previousFindings: ReviewFinding[] = [
+    { path: "src/main.ts", line: 11, severity: "major", message: "Duplicated" },
+    { path: "src/main.ts", line: 14, severity: "nit", message: "Odd comment" },
+  ];
+
+  const increment = {
+    previousHeadSha: "1111111aaaa",
+    commits: [{ sha: "2222222bbbb", message: "Remove duplicate\n\nDetails" }],
+    files,
+    diff: patch,
+    omittedFiles: [],
+    previousFindings,
+  };
+
+  function mockCompare(data: unknown) {
+    passThroughRateLimiter();
+    const compareCommitsWithBasehead = vi.fn().mockResolvedValue({ data, headers: {} });
+    return {
+      compareCommitsWithBasehead,
+      octokit: { rest: { repos: { compareCommitsWithBasehead } } } as unknown as Octokit,
+    };
+  }
+
+  it("fetches the commits and files pushed since the last review", async () => {
+    const { octokit, compareCommitsWithBasehead } = mockCompare({
+      status: "ahead",
+      commits: [{ sha: "2222222bbbb", commit: { message: "Remove duplicate" } }],
+      files: [{ filename: "src/main.ts", status: "modified", additions: 3, deletions: 1, patch }],
+    });
+
+    const result = await fetchReviewIncrement(octokit, context, { headSha: "1111111aaaa", findings: previousFindings }, "2222222bbbb");
+
+    expect(compareCommitsWithBasehead).toHaveBeenCalledWith(expect.objectContaining({ basehead: "1111111aaaa...2222222bbbb" }));
+    expect(result?.commits).toEqual([{ sha: "2222222bbbb", message: "Remove duplicate" }]);
+    expect(result?.diff).toContain("+++ b/src/main.ts");
+    expect(result?.previousFindings).toBe(previousFindings);
+  });
+
+  it("falls back to a full review after a force-push", async () => {
+    const { octokit } = mockCompare({ status: "diverged", commits: [], files: [] });
+    expect(await fetchReviewIncrement(octokit, context, { headSha: "old", findings: [] }, "new")).toBeNull();
+  });
+
+  it("asks only about the new commits and lists earlier findings", () => {
+    const prompt = buildReviewPrompt(
+      context,
+      "",
+      {
+        pullRequest: {
+          number: 7,
+          title: "Change",
+          body: "",
+          state: "open",
+          draft: false,
+          author: "alice",
+          headRef: "feature",
+          headSha: "2222222bbbb",
+          headRepoFullName: "owner/repo",
+          baseRef: "main",
+          baseSha: "base",
+          maintainerCanModify: false,
+        },
+        files: [],
+        diff: "",
+        omittedFiles: [],
+      },
+      increment
+    );
+
+    expect(prompt).toContain("You reviewed this pull request before, at commit 1111111");
+    expect(prompt).toContain("- 2222222 Remove duplicate\n");
+    expect(prompt).toContain("1. `src/main.ts:11` major: Duplicated");
+    expect(prompt).toContain('"resolved": [1]');
+  });
+
+  it("reports resolved findings and keeps the rest open", () => {
+    const review = parseReviewOutput("```codeduck-review\n" + JSON.stringify({ summary: "Better.", findings: [], resolved: [1, 9, "x"] }) + "\n```");
+    expect(review?.resolved).toEqual([1, 9]);
+    if (!review) return;
+
+    const { body } = buildReviewSubmission(review, files, increment);
+    expect(body).toContain("_Reviewed 1 new commit(s) since `1111111`._");
+    expect(body).toContain("**Resolved since the last review:**\n\n- `src/main.ts:11` **major:** Duplicated");
+    expect(body).toContain("_1 finding(s) from the last review still look open._");
+
+    expect(getOpenFindings(review, increment)).toEqual([previousFindings[1]]);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { ProgressComment, renderProgress } from "../src/github/progress-comment.js";
+
+function makeOctokit() {
+  return {
+    rest: {
+      issues: {
+        createComment: vi.fn().mockResolvedValue({ data: { id: 42, html_url: "url" }, headers: {} }),
+        updateComment: vi.fn().mockResolvedValue({ data: {}, headers: {} }),
+      },
+    },
+  } as unknown as Octokit & {
+    rest: { issues: { createComment: ReturnType<typeof vi.fn>; updateComment: ReturnType<typeof vi.fn> } };
+  };
+}
+
+function makeProgress(octokit: Octokit) {
+  return new ProgressComment({
+    octokit,
+    owner: "owner",
+    repo: "repo",
+    issueNumber: 1,
+    header: "Working...",
+    intervalMs: 1000,
+  });
+}
+
+describe("ProgressComment", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("throttles edits to one per interval with the latest state", async () => {
+    vi.useFakeTimers();
+    const octokit = makeOctokit();
+    const progress = makeProgress(octokit);
+
+    await progress.start();
+    progress.update({ step: "Reading `a.ts`" });
+    progress.update({ step: "Reading `b.ts`" });
+    progress.update({ output: "partial" });
+
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledTimes(1);
+    const body = octokit.rest.issues.updateComment.mock.calls[0][0].body as string;
+    expect(body).toContain("Reading `b.ts`");
+    expect(body).toContain("partial");
+  });
+
+  it("replaces the comment with the final body and drops pending updates", async () => {
+    vi.useFakeTimers();
+    const octokit = makeOctokit();
+    const progress = makeProgress(octokit);
+
+    await progress.start();
+    progress.update({ step: "still working" });
+    await progress.finish("Done!");
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledTimes(1);
+    expect(octokit.rest.issues.updateComment.mock.calls[0][0]).toMatchObject({ comment_id: 42, body: "Done!" });
+  });
+
+  it("posts a new comment when the acknowledgment could not be edited", async () => {
+    const octokit = makeOctokit();
+    octokit.rest.issues.updateComment.mockRejectedValue(Object.assign(new Error("gone"), { status: 404 }));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const progress = makeProgress(octokit);
+
+    await progress.start();
+    await progress.finish("Done!");
+
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledTimes(2);
+    expect(octokit.rest.issues.createComment.mock.calls[1][0].body).toBe("Done!");
+  });
+});
+
+describe("renderProgress", () => {
+  it("keeps only the tail of long output and closes open code fences", () => {
+    const output = "x".repeat(5000) + "\n```ts\nconst value = 1;";
+    const body = renderProgress("Working...", { output });
+
+    expect(body.length).toBeLessThan(2500);
+    expect(body).toContain("const value = 1;\n```");
+    expect((body.match(/```/g) || []).length % 2).toBe(0);
+  });
+
+  it("replies and edits inside a review thread when given a review comment", async () => {
+    const createReplyForReviewComment = vi.fn().mockResolvedValue({ data: { id: 77 }, headers: {} });
+    const updateReviewComment = vi.fn().mockResolvedValue({ data: {}, headers: {} });
+    const octokit = makeOctokit();
+    Object.assign(octokit.rest, { pulls: { createReplyForReviewComment, updateReviewComment } });
+
+    const progress = new ProgressComment({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      issueNumber: 5,
+      reviewCommentId: 900,
+      header: "Working...",
+    });
+    await progress.start();
+    await progress.finish("Done");
+
+    expect(createReplyForReviewComment).toHaveBeenCalledWith(
+      expect.objectContaining({ pull_number: 5, comment_id: 900, body: "Working..." })
+    );
+    expect(updateReviewComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 77, body: "Done" }));
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { getClaudeSessionOptions } from "../src/agent/providers/claude.js";
+import { buildCodexOptions } from "../src/agent/providers/codex.js";
+
+const settings = { apiKey: "key", baseUrl: "https://api.example.com" };
+
+describe("claude session options", () => {
+  afterEach(() => {
+    delete process.env.GH_TOKEN;
+  });
+
+  it("hands the agent the token of its own run, not the server's environment", () => {
+    process.env.GH_TOKEN = "other-installation";
+    expect(getClaudeSessionOptions("prompt", true, undefined, "this-installation", settings).env.GH_TOKEN)
+      .toBe("this-installation");
+    expect(getClaudeSessionOptions("prompt", false, undefined, undefined, settings).env.GH_TOKEN).toBe("");
+  });
+});
+
+describe("codex options", () => {
+  const secrets = {
+    GITHUB_APP_PRIVATE_KEY: "private-key",
+    GITHUB_APP_WEBHOOK_SECRET: "webhook-secret",
+    ADMIN_API_TOKEN: "admin-token",
+    MINIMAX_API_KEY: "minimax-key",
+    GH_TOKEN: "other-installation",
+  };
+
+  afterEach(() => {
+    for (const name of Object.keys(secrets)) {
+      delete process.env[name];
+    }
+  });
+
+  it("gives the CLI only the environment it needs", () => {
+    Object.assign(process.env, secrets);
+    const options = buildCodexOptions("this-installation", settings);
+
+    expect(Object.keys(options.env ?? {}).sort()).toEqual(
+      ["CODEX_API_KEY", "GH_TOKEN", "HOME", "OPENAI_BASE_URL", "PATH"]
+    );
+    expect(options.env).toMatchObject({
+      GH_TOKEN: "this-installation",
+      CODEX_API_KEY: "key",
+      OPENAI_BASE_URL: "https://api.example.com",
+    });
+    expect(buildCodexOptions(undefined, {}).env?.GH_TOKEN).toBe("");
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { Octokit } from "@octokit/rest";
+import { passThroughRateLimiter } from "./helpers/rate-limiter.js";
+import {
+  formatConfigErrors,
+  formatEffectiveConfig,
+  getDefaultRepoConfig,
+  invalidateRepoConfig,
+  isAllowedByAccessConfig,
+  isCommandEnabled,
+  loadRepoConfig,
+  mergeConfigFiles,
+  parseRepoConfig,
+  validateRepoConfig,
+} from "../src/config/repo-config.js";
+
+describe("repository config validation", () => {
+  it("uses the defaults for an empty file", () => {
+    expect(parseRepoConfig("")).toEqual({ config: getDefaultRepoConfig(), errors: [] });
+    expect(getDefaultRepoConfig().limits.maxCommentLength).toBe(10 * 1024);
+  });
+
+  it("reads every section", () => {
+    const { config, errors } = parseRepoConfig(`
+commands:
+  disabled: [Implement]
+agent:
+  provider: codex
+  model: gpt-5-codex
+greetings:
+  issues: false
+access:
+  write: maintain
+  teams: [maintainers]
+autoReview:
+  events: [opened]
+  ignorePaths: ["docs/**"]
+triage:
+  labels: apply
+checks:
+  command: npm test
+  repairAttempts: 2
+limits:
+  maxCommentLength: 2000
+`);
+    expect(errors).toEqual([]);
+    expect(config.commands).toEqual({ disabled: ["implement"] });
+    expect(config.agent).toEqual({ provider: "codex", model: "gpt-5-codex" });
+    expect(config.greetings).toEqual({ issues: false, pullRequests: true });
+    expect(config.access).toEqual({ read: "triage", write: "maintain", teams: ["maintainers"] });
+    expect(config.autoReview).toEqual({ events: ["opened"], ignorePaths: ["docs/**"] });
+    expect(config.triage).toEqual({ labels: "apply" });
+    expect(config.checks).toEqual({ command: "npm test", repairAttempts: 2 });
+    expect(config.limits).toEqual({ maxCommentLength: 2000, maxResponseLength: 60_000 });
+  });
+
+  it("reports every problem and falls back to the defaults", () => {
+    const { config, errors } = validateRepoConfig({
+      agent: { provider: "gpt" },
+      greetings: { issues: "no" },
+      access: { write: "owner" },
+      autoReview: { events: ["closed"] },
+      limits: { maxCommentLength: 0 },
+      reviewers: ["someone"],
+    });
+    expect(errors).toEqual([
+      "unknown key `reviewers`",
+      "`agent.provider` must be one of: claude, codex, minimax, anthropic",
+      "`greetings.issues` must be true or false",
+      "`access.write` must be one of: read, triage, write, maintain, admin",
+      "`autoReview.events` may only contain: opened, ready_for_review, synchronize",
+      "`limits.maxCommentLength` must be a whole number from 1 to 65536",
+    ]);
+    expect(config).toEqual(getDefaultRepoConfig());
+  });
+
+  it("reports YAML syntax errors", () => {
+    const { errors } = parseRepoConfig("commands: [unclosed");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/^invalid YAML: /);
+    expect(parseRepoConfig("- just\n- a list").errors).toEqual(["the file must contain a mapping of settings"]);
+  });
+
+  it("lists the problems in the error comment", () => {
+    const comment = formatConfigErrors({
+      config: getDefaultRepoConfig(),
+      errors: ["`owner/repo/.codeduck.yml`: unknown key `reviewers`"],
+      sources: [{ repository: "owner/repo", path: ".codeduck.yml", sha: "abcdef1234567" }],
+    });
+    expect(comment).toContain("`owner/repo/.codeduck.yml` at `abcdef1`");
+    expect(comment).toContain("- `owner/repo/.codeduck.yml`: unknown key `reviewers`");
+  });
+});
+
+describe("command and access settings", () => {
+  it("matches whole commands and always allows help", () => {
+    const { config } = validateRepoConfig({ commands: { enabled: ["review", "explain"], disabled: [] } });
+    expect(isCommandEnabled(config, "review")).toBe(true);
+    expect(isCommandEnabled(config, "reviewing")).toBe(false);
+    expect(isCommandEnabled(config, "implement")).toBe(false);
+    expect(isCommandEnabled(config, "help")).toBe(true);
+    expect(isCommandEnabled(getDefaultRepoConfig(), "implement")).toBe(true);
+
+    const { config: withDisabled } = validateRepoConfig({ commands: { disabled: ["fix"] } });
+    expect(isCommandEnabled(withDisabled, "fix")).toBe(false);
+    expect(isCommandEnabled(withDisabled, "fixture")).toBe(true);
+  });
+
+  it("resolves command aliases", () => {
+    const { config } = validateRepoConfig({ commands: { disabled: ["summarize", "analysis"] } });
+    expect(isCommandEnabled(config, "summary")).toBe(false);
+    expect(isCommandEnabled(config, "Summarise")).toBe(false);
+    expect(isCommandEnabled(config, "analyze")).toBe(false);
+    expect(isCommandEnabled(config, "explain")).toBe(true);
+  });
+
+  it("allows listed users and members of listed teams", async () => {
+    passThroughRateLimiter();
+    const getMembershipForUserInOrg = vi.fn(async ({ username }: { username: string }) => {
+      if (username !== "carol") {
+        throw Object.assign(new Error("Not Found"), { status: 404 });
+      }
+      return { data: { state: "active" }, headers: {} };
+    });
+    const octokit = { rest: { teams: { getMembershipForUserInOrg } } } as unknown as Octokit;
+    const { config } = validateRepoConfig({ access: { users: ["Alice"], teams: ["maintainers"] } });
+
+    expect(await isAllowedByAccessConfig(octokit, "org", config, "alice")).toBe(true);
+    expect(await isAllowedByAccessConfig(octokit, "org", config, "carol")).toBe(true);
+    expect(await isAllowedByAccessConfig(octokit, "org", config, "mallory")).toBe(false);
+    expect(await isAllowedByAccessConfig(octokit, "org", getDefaultRepoConfig(), "mallory")).toBe(true);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("repository config loading", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  interface MockRepo {
+    head: string;
+    /** File contents by commit and path */
+    files: Record<string, Record<string, string>>;
+  }
+
+  function mockRepos(repos: Record<string, MockRepo>) {
+    passThroughRateLimiter();
+    const notFound = () => Object.assign(new Error("Not Found"), { status: 404 });
+    const get = vi.fn(async ({ repo }: { repo: string }) => {
+      if (!repos[repo]) throw notFound();
+      return { data: { default_branch: "main" } };
+    });
+    const getRef = vi.fn(async ({ repo }: { repo: string }) => ({ data: { object: { sha: repos[repo].head } }, headers: {} }));
+    const getContent = vi.fn(async ({ repo, path, ref }: { repo: string; path: string; ref: string }) => {
+      const content = repos[repo]?.files[ref]?.[path];
+      if (content === undefined) throw notFound();
+      return { data: { content: Buffer.from(content).toString("base64"), encoding: "base64" } };
+    });
+    const octokit = { rest: { repos: { get, getContent }, git: { getRef } } } as unknown as Octokit;
+    return { octokit, getContent, getRef };
+  }
+
+  it("reads the file at the default branch head and caches it per commit", async () => {
+    const repo: MockRepo = {
+      head: "sha1",
+      files: { sha1: { ".codeduck.yml": "greetings:\n  issues: false\n" }, sha2: { ".codeduck.yml": "limits: {}\n" } },
+    };
+    const { octokit, getContent } = mockRepos({ repo });
+
+    const first = await loadRepoConfig(octokit, "cache-owner", "repo");
+    expect(first.errors).toEqual([]);
+    expect(first.sources).toEqual([{ repository: "cache-owner/repo", path: ".codeduck.yml", sha: "sha1" }]);
+    expect(first.config.greetings.issues).toBe(false);
+    await loadRepoConfig(octokit, "cache-owner", "repo");
+    expect(getContent).toHaveBeenCalledTimes(1);
+
+    repo.head = "sha2";
+    invalidateRepoConfig("cache-owner", "repo");
+    const second = await loadRepoConfig(octokit, "cache-owner", "repo");
+    expect(second.config.greetings.issues).toBe(true);
+    expect(getContent).toHaveBeenCalledTimes(2);
+  });
+
+  it("looks up the default branch head at most once a minute", async () => {
+    vi.useFakeTimers();
+    const repo: MockRepo = { head: "sha1", files: { sha1: { ".codeduck.yml": "limits: {}\n" } } };
+    const { octokit, getRef } = mockRepos({ repo });
+
+    await loadRepoConfig(octokit, "ttl-owner", "repo");
+    await loadRepoConfig(octokit, "ttl-owner", "repo");
+    expect(getRef).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(60 * 1000 + 1);
+    await loadRepoConfig(octokit, "ttl-owner", "repo");
+    expect(getRef).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it("uses the defaults when the repository has no config file", async () => {
+    const { octokit } = mockRepos({ repo: { head: "sha1", files: {} } });
+    const loaded = await loadRepoConfig(octokit, "missing-owner", "repo");
+    expect(loaded).toEqual({ config: getDefaultRepoConfig(), errors: [], sources: [] });
+  });
+
+  it("merges the repository's file over the organization's defaults", async () => {
+    const { octokit } = mockRepos({
+      ".github": {
+        head: "org1",
+        files: { org1: { "codeduck.yml": "agent:\n  provider: codex\n  model: gpt-5\ncommands:\n  disabled: [implement]\n" } },
+      },
+      repo: {
+        head: "repo1",
+        files: { repo1: { ".codeduck.yml": "agent:\n  model: gpt-5-codex\ncommands:\n  disabled: [fix]\n" } },
+      },
+    });
+
+    const loaded = await loadRepoConfig(octokit, "merge-org", "repo");
+    expect(loaded.errors).toEqual([]);
+    expect(loaded.sources.map((source) => source.repository)).toEqual(["merge-org/.github", "merge-org/repo"]);
+    expect(loaded.config.agent).toEqual({ provider: "codex", model: "gpt-5-codex" });
+    expect(loaded.config.commands.disabled).toEqual(["fix"]);
+
+    const shown = formatEffectiveConfig(loaded, "merge-org/repo");
+    expect(shown).toContain("3. `merge-org/.github/codeduck.yml` at `org1`");
+    expect(shown).toContain("4. `merge-org/repo/.codeduck.yml` at `repo1`");
+    expect(shown).toContain("model: gpt-5-codex");
+  });
+
+  it("names the file a problem comes from", async () => {
+    const { octokit } = mockRepos({
+      ".github": { head: "org2", files: { org2: { "codeduck.yml": "greetings: off\n" } } },
+      repo: { head: "repo2", files: {} },
+    });
+    const loaded = await loadRepoConfig(octokit, "broken-org", "repo");
+    expect(loaded.errors).toEqual(["`broken-org/.github/codeduck.yml`: `greetings` must be a mapping"]);
+    expect(loaded.config).toEqual(getDefaultRepoConfig());
+  });
+});
+
+describe("config file merging", () => {
+  it("merges mappings and replaces lists and values", () => {
+    expect(
+      mergeConfigFiles(
+        { agent: { provider: "codex", model: "a" }, access: { users: ["x", "y"] }, limits: { maxCommentLength: 5 } },
+        { agent: { model: "b" }, access: { users: ["z"] }, limits: null }
+      )
+    ).toEqual({ agent: { provider: "codex", model: "b" }, access: { users: ["z"] }, limits: { maxCommentLength: 5 } });
+    expect(mergeConfigFiles(undefined, { greetings: { issues: false } })).toEqual({ greetings: { issues: false } });
+  });
+});
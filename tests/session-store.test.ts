@@ -113,4 +113,39 @@ describe("SessionStore", () => {
 
     expect(existsSync(tempPath)).toBe(false);
   });
+
+  it("keeps the review record when the same session is saved again", () => {
+    const dir = makeTempDir();
+    const store = new SessionStore({ dir, ttlMs: 10_000, logger: silentLogger });
+    const key = "owner/repo#6";
+    const review = { headSha: "abc", findings: [], reviewedAt: Date.now() };
+
+    store.saveSession(key, { sessionId: "s6", context: baseContext, createdAt: Date.now(), provider: "claude" });
+    store.recordReview(key, baseContext, review);
+
+    // Providers re-save the session on every resumed run
+    store.saveSession(key, { sessionId: "s6", context: baseContext, createdAt: Date.now(), provider: "claude" });
+    expect(store.getSession(key)?.lastReview).toEqual(review);
+
+    const reloaded = new SessionStore({ dir, ttlMs: 10_000, logger: silentLogger });
+    reloaded.loadAllPersistedSessions();
+    expect(reloaded.getSession(key)?.lastReview).toEqual(review);
+
+    // A new session starts without one
+    store.saveSession(key, { sessionId: "s7", context: baseContext, createdAt: Date.now(), provider: "claude" });
+    expect(store.getSession(key)?.lastReview).toBeUndefined();
+  });
+
+  it("records a review before any conversation and keeps it for the first one", () => {
+    const dir = makeTempDir();
+    const store = new SessionStore({ dir, ttlMs: 10_000, logger: silentLogger });
+    const key = "owner/repo#8";
+    const review = { headSha: "def", findings: [], reviewedAt: Date.now() };
+
+    store.recordReview(key, baseContext, review);
+    expect(store.getSession(key)).toMatchObject({ sessionId: "", lastReview: review });
+
+    store.saveSession(key, { sessionId: "s8", context: baseContext, createdAt: Date.now(), provider: "codex" });
+    expect(store.getSession(key)?.lastReview).toEqual(review);
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
 import crypto from "crypto";
 import { parseWebhookPayload, verifyWebhookSignature } from "../src/utils/webhook.js";
 
@@ -13,40 +13,32 @@ function sign(body: string, secret: string) {
 }
 
 describe("webhook signature verification", () => {
-  let env: NodeJS.ProcessEnv;
-
-  beforeEach(() => {
-    env = {};
-  });
+  const production = { secret: "secret", allowUnsigned: false };
 
   afterEach(() => {
     vi.restoreAllMocks();
   });
 
   it("accepts valid signatures", () => {
-    env.GITHUB_APP_WEBHOOK_SECRET = "secret";
     const signature = sign(payload, "secret");
-    expect(verifyWebhookSignature(payload, signature, env)).toBe(true);
+    expect(verifyWebhookSignature(payload, signature, production)).toBe(true);
   });
 
   it("rejects invalid signatures", () => {
-    env.GITHUB_APP_WEBHOOK_SECRET = "secret";
     const signature = sign(payload, "wrong-secret");
-    expect(verifyWebhookSignature(payload, signature, env)).toBe(false);
+    expect(verifyWebhookSignature(payload, signature, production)).toBe(false);
   });
 
   it("rejects missing signature in production", () => {
-    env.GITHUB_APP_WEBHOOK_SECRET = "secret";
-    expect(verifyWebhookSignature(payload, undefined, env)).toBe(false);
+    expect(verifyWebhookSignature(payload, undefined, production)).toBe(false);
   });
 
   it("allows missing secret in development", () => {
-    env.NODE_ENV = "development";
-    expect(verifyWebhookSignature(payload, undefined, env)).toBe(true);
+    expect(verifyWebhookSignature(payload, undefined, { allowUnsigned: true })).toBe(true);
   });
 
   it("rejects missing secret in production", () => {
-    expect(verifyWebhookSignature(payload, undefined, env)).toBe(false);
+    expect(verifyWebhookSignature(payload, undefined, { allowUnsigned: false })).toBe(false);
   });
 });
 
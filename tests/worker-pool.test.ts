@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import { WorkerPool, type PoolTask } from "../src/jobs/worker-pool.js";
+
+const silentLogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+function makeTask(id: string, group: string, key: string, order: string[], gate?: Promise<void>): PoolTask {
+  return {
+    id,
+    group,
+    key,
+    run: async () => {
+      order.push(id);
+      await gate;
+    },
+  };
+}
+
+describe("WorkerPool", () => {
+  it("caps concurrently running tasks", async () => {
+    const pool = new WorkerPool({ concurrency: 2, logger: silentLogger });
+    const gate = deferred();
+    const order: string[] = [];
+
+    pool.submit(makeTask("a", "1", "r", order, gate.promise));
+    pool.submit(makeTask("b", "1", "r", order, gate.promise));
+    const position = pool.submit(makeTask("c", "1", "r", order, gate.promise));
+
+    expect(order).toEqual(["a", "b"]);
+    expect(position).toBe(1);
+    expect(pool.getStatus()).toEqual({ concurrency: 2, running: 2, queued: 1 });
+
+    gate.resolve();
+    await pool.onIdle();
+    expect(order).toEqual(["a", "b", "c"]);
+  });
+
+  it("rotates between installations so one cannot starve another", async () => {
+    const pool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+    const gate = deferred();
+    const order: string[] = [];
+
+    pool.submit(makeTask("busy-0", "busy", "r", order, gate.promise));
+    pool.submit(makeTask("busy-1", "busy", "r", order));
+    pool.submit(makeTask("busy-2", "busy", "r", order));
+    pool.submit(makeTask("quiet-1", "quiet", "r", order));
+
+    expect(pool.getPosition("quiet-1")).toBe(2);
+
+    gate.resolve();
+    await pool.onIdle();
+    expect(order).toEqual(["busy-0", "busy-1", "quiet-1", "busy-2"]);
+  });
+
+  it("rotates between repositories within an installation", () => {
+    const pool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+    const gate = deferred();
+    const order: string[] = [];
+
+    pool.submit(makeTask("running", "1", "a", order, gate.promise));
+    pool.submit(makeTask("a-1", "1", "a", order));
+    pool.submit(makeTask("a-2", "1", "a", order));
+    pool.submit(makeTask("b-1", "1", "b", order));
+
+    expect(pool.getQueuedOrder().map((task) => task.id)).toEqual(["a-1", "b-1", "a-2"]);
+    gate.resolve();
+  });
+
+  it("removes waiting tasks but not running ones", async () => {
+    const pool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+    const gate = deferred();
+    const order: string[] = [];
+
+    pool.submit(makeTask("running", "1", "r", order, gate.promise));
+    pool.submit(makeTask("waiting", "1", "r", order));
+
+    expect(pool.remove("running")).toBe(false);
+    expect(pool.has("waiting")).toBe(true);
+    expect(pool.remove("waiting")).toBe(true);
+    expect(pool.has("waiting")).toBe(false);
+    expect(pool.getPosition("waiting")).toBeUndefined();
+    expect(pool.getStatus().queued).toBe(0);
+
+    gate.resolve();
+    await pool.onIdle();
+    expect(order).toEqual(["running"]);
+  });
+
+  it("keeps draining after a task throws", async () => {
+    const pool = new WorkerPool({ concurrency: 1, logger: silentLogger });
+    const order: string[] = [];
+
+    pool.submit({ id: "bad", group: "1", key: "r", run: async () => { throw new Error("boom"); } });
+    pool.submit(makeTask("good", "1", "r", order));
+
+    await pool.onIdle();
+    expect(order).toEqual(["good"]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { WorkspaceManager, WorkspaceQuotaError } from "../src/workspace/manager.js";
+import { commitIdentityArgs, runGit } from "../src/workspace/git.js";
+
+const silentLogger = {
+  log: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const MEGABYTE = 1024 * 1024;
+
+let remotesDir: string;
+let mainSha: string;
+let pullSha: string;
+
+async function commitFile(dir: string, file: string, content: string): Promise<string> {
+  writeFileSync(join(dir, file), content);
+  await runGit(["add", "-A"], { cwd: dir });
+  await runGit([...commitIdentityArgs(), "commit", "-q", "-m", `add ${file}`], { cwd: dir });
+  return (await runGit(["rev-parse", "HEAD"], { cwd: dir })).trim();
+}
+
+function makeManager(overrides: { maxWorkspaceBytes?: number; maxCacheBytes?: number } = {}) {
+  return new WorkspaceManager({
+    rootDir: mkdtempSync(join(tmpdir(), "codeduck-workspaces-")),
+    maxWorkspaceBytes: overrides.maxWorkspaceBytes ?? 100 * MEGABYTE,
+    maxCacheBytes: overrides.maxCacheBytes ?? 100 * MEGABYTE,
+    getRemoteUrl: (owner, repo) => join(remotesDir, owner, repo),
+    logger: silentLogger,
+  });
+}
+
+describe("WorkspaceManager", () => {
+  beforeAll(async () => {
+    remotesDir = mkdtempSync(join(tmpdir(), "codeduck-remotes-"));
+    const source = join(remotesDir, "owner", "repo");
+    mkdirSync(source, { recursive: true });
+    await runGit(["init", "-q", "-b", "main"], { cwd: source });
+    mainSha = await commitFile(source, "README.md", "main branch\n");
+
+    await runGit(["checkout", "-q", "-b", "feature"], { cwd: source });
+    pullSha = await commitFile(source, "feature.txt", "pull request\n");
+    await runGit(["update-ref", "refs/pull/5/head", pullSha], { cwd: source });
+    await runGit(["checkout", "-q", "main"], { cwd: source });
+  });
+
+  it("creates a worktree at the default branch and removes it on release", async () => {
+    const manager = makeManager();
+    const workspace = await manager.acquire({
+      owner: "owner",
+      repo: "repo",
+      name: "issue-1",
+      ref: { type: "branch", name: "main" },
+      token: "token",
+    });
+
+    expect(workspace.baseSha).toBe(mainSha);
+    expect(readFileSync(join(workspace.dir, "README.md"), "utf-8")).toBe("main branch\n");
+    expect(existsSync(manager.getMirrorPath("owner", "repo"))).toBe(true);
+
+    await workspace.release();
+    expect(existsSync(workspace.dir)).toBe(false);
+  });
+
+  it("checks out the head of a pull request", async () => {
+    const manager = makeManager();
+    const workspace = await manager.acquire({
+      owner: "owner",
+      repo: "repo",
+      name: "issue-5",
+      ref: { type: "pull", number: 5 },
+      token: "token",
+    });
+
+    expect(workspace.baseSha).toBe(pullSha);
+    expect(existsSync(join(workspace.dir, "feature.txt"))).toBe(true);
+    await workspace.release();
+  });
+
+  it("reuses the cached mirror for later jobs", async () => {
+    const manager = makeManager();
+    const request = {
+      owner: "owner",
+      repo: "repo",
+      name: "issue-2",
+      ref: { type: "branch" as const, name: "main" },
+      token: "token",
+    };
+
+    await (await manager.acquire(request)).release();
+    const second = await manager.acquire(request);
+    expect(second.baseSha).toBe(mainSha);
+    await second.release();
+  });
+
+  it("rejects workspaces over the disk quota and cleans them up", async () => {
+    const manager = makeManager({ maxWorkspaceBytes: 1 });
+
+    const error = await manager
+      .acquire({
+        owner: "owner",
+        repo: "repo",
+        name: "issue-3",
+        ref: { type: "branch", name: "main" },
+        token: "token",
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(WorkspaceQuotaError);
+    expect(existsSync(manager.getWorktreePath("owner", "repo", "issue-3"))).toBe(false);
+  });
+
+  it("evicts unused mirrors when the cache is over quota", async () => {
+    const manager = makeManager({ maxCacheBytes: 0 });
+    const workspace = await manager.acquire({
+      owner: "owner",
+      repo: "repo",
+      name: "issue-4",
+      ref: { type: "branch", name: "main" },
+      token: "token",
+    });
+
+    // In use: must survive eviction
+    await manager.enforceCacheQuota();
+    expect(existsSync(manager.getMirrorPath("owner", "repo"))).toBe(true);
+
+    await workspace.release();
+    await manager.enforceCacheQuota();
+    expect(existsSync(manager.getMirrorPath("owner", "repo"))).toBe(false);
+  });
+
+  it("removes stale worktrees left by a crash", async () => {
+    const manager = makeManager();
+    const stale = manager.getWorktreePath("owner", "repo", "issue-9");
+    mkdirSync(stale, { recursive: true });
+
+    await manager.cleanupStaleWorktrees();
+    expect(existsSync(stale)).toBe(false);
+  });
+});
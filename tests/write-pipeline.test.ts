@@ -0,0 +1,266 @@
+import { describe, it, expect, vi } from "vitest";
+import { chmodSync, mkdtempSync, renameSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Octokit } from "@octokit/rest";
+import type { PullRequestInfo } from "../src/github/client.js";
+import type { JobWorkspace } from "../src/workspace/manager.js";
+import { commitIdentityArgs, runGit } from "../src/workspace/git.js";
+import {
+  buildChangeTitle,
+  buildPullRequestBody,
+  checkPullRequestPushable,
+  collectChanges,
+  formatPatch,
+  formatWriteSummary,
+  runWritePipeline,
+} from "../src/pipeline/write-pipeline.js";
+
+// The "agent" adds a file to the workspace and reports success
+const agentRuns = vi.hoisted(() => [] as Array<{ cwd: string; githubToken?: string }>);
+vi.mock("../src/agent/client.js", () => ({
+  async *executeSessionStreaming(
+    _context: unknown,
+    _prompt: string,
+    _mode: string,
+    _provider: unknown,
+    options: { cwd: string; githubToken?: string }
+  ) {
+    agentRuns.push(options);
+    const fs = await import("fs");
+    fs.writeFileSync(`${options.cwd}/feature.txt`, "new\n");
+    yield { type: "result", response: { success: true, result: "Added the feature." } };
+  },
+}));
+
+const context = {
+  owner: "owner",
+  repo: "repo",
+  issueNumber: 12,
+  isPR: false,
+  triggeredAt: new Date().toISOString(),
+};
+
+describe("write pipeline formatting", () => {
+  it("builds a bounded title from the command", () => {
+    const short = buildChangeTitle({ mode: "write", action: "fix", target: "the login bug", original: "" });
+    expect(short).toBe("CodeDuck: fix the login bug");
+
+    const long = buildChangeTitle({ mode: "write", action: "implement", target: "x".repeat(200), original: "" });
+    expect(long.length).toBe(72);
+    expect(long.endsWith("...")).toBe(true);
+  });
+
+  it("links the issue and includes the diff stat in the PR body", () => {
+    const body = buildPullRequestBody(context, "Fixed the bug.", " src/a.ts | 2 +-\n");
+    expect(body.startsWith("Closes #12")).toBe(true);
+    expect(body).toContain("Fixed the bug.");
+    expect(body).toContain("src/a.ts | 2 +-");
+  });
+
+  it("includes check results in the PR body", () => {
+    const checks = {
+      results: [{ name: "npm test", passed: true, exitCode: 0, timedOut: false, durationMs: 5, output: "" }],
+      repairAttempts: 0,
+    };
+    const body = buildPullRequestBody(context, "Fixed the bug.", " src/a.ts | 2 +-\n", checks);
+    expect(body).toContain("### Checks");
+    expect(body).toContain("- `npm test`: passed");
+  });
+
+  it("truncates very long agent summaries", () => {
+    const body = buildPullRequestBody(context, "y".repeat(10_000), "");
+    expect(body).toContain("_(summary truncated)_");
+    expect(body.length).toBeLessThan(6000);
+  });
+
+  it("reports the pull request or the lack of changes", () => {
+    const response = { success: true, result: "" };
+    expect(formatWriteSummary({ response })).toContain("no pull request");
+    expect(
+      formatWriteSummary({ response, branch: "codeduck/issue-12", pullRequestUrl: "https://github.com/o/r/pull/3" })
+    ).toContain("https://github.com/o/r/pull/3");
+    expect(
+      formatWriteSummary({ response, branch: "feature", commitSha: "abcdef1234567", followUp: true })
+    ).toBe("Pushed abcdef1 to `feature`.");
+  });
+});
+
+describe("dry-run patches", () => {
+  const diffStat = " src/a.ts | 2 +-\n 1 file changed, 1 insertion(+), 1 deletion(-)\n";
+
+  it("posts the diff in a collapsible block with file stats", () => {
+    const patch = "diff --git a/src/a.ts b/src/a.ts\n-old\n+new\n";
+    const summary = formatWriteSummary({ response: { success: true, result: "" }, diffStat, patch });
+    expect(summary).toContain("no branch or pull request was created");
+    expect(summary).toContain("src/a.ts | 2 +-");
+    expect(summary).toContain("<summary>Patch (1 file changed, 1 insertion(+), 1 deletion(-))</summary>");
+    expect(summary).toContain("```diff\ndiff --git a/src/a.ts b/src/a.ts\n-old\n+new\n```");
+  });
+
+  it("uses a longer fence than any backticks in the patch and truncates large patches", () => {
+    const fenced = formatPatch(diffStat, "+```ts\n+code\n+```\n");
+    expect(fenced).toContain("````diff\n");
+
+    const large = formatPatch(diffStat, `${"+line\n".repeat(20_000)}`);
+    expect(large).toContain("_(patch truncated");
+    expect(large.length).toBeLessThan(41_000);
+  });
+});
+
+describe("pushing to existing pull requests", () => {
+  const prContext = { ...context, isPR: true };
+
+  function pullRequest(overrides: Partial<PullRequestInfo> = {}): PullRequestInfo {
+    return {
+      number: 12,
+      title: "Add feature",
+      body: "",
+      state: "open",
+      draft: false,
+      author: "contributor",
+      headRef: "feature",
+      headSha: "a".repeat(40),
+      headRepoFullName: "owner/repo",
+      baseRef: "main",
+      baseSha: "b".repeat(40),
+      maintainerCanModify: false,
+      ...overrides,
+    };
+  }
+
+  it("allows branches in the same repository", () => {
+    expect(checkPullRequestPushable(prContext, pullRequest())).toBeNull();
+  });
+
+  it("refuses closed pull requests and deleted forks", () => {
+    expect(checkPullRequestPushable(prContext, pullRequest({ state: "closed" }))).toContain("is closed");
+    expect(checkPullRequestPushable(prContext, pullRequest({ headRepoFullName: null }))).toContain("no longer exists");
+  });
+
+  it("only pushes to forks that allow edits from maintainers", () => {
+    const fork = pullRequest({ headRepoFullName: "contributor/repo" });
+    expect(checkPullRequestPushable(prContext, fork)).toContain("does not allow edits from maintainers");
+    expect(checkPullRequestPushable(prContext, { ...fork, maintainerCanModify: true })).toBeNull();
+  });
+});
+
+describe("collecting changes for the Git Data API", () => {
+  async function commitAll(dir: string, message: string): Promise<string> {
+    await runGit(["add", "-A"], { cwd: dir });
+    await runGit([...commitIdentityArgs(), "commit", "-q", "-m", message], { cwd: dir });
+    return (await runGit(["rev-parse", "HEAD"], { cwd: dir })).trim();
+  }
+
+  it("describes adds, modifies, deletes, renames, modes and binary files", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "codeduck-changes-"));
+    await runGit(["init", "-q"], { cwd: dir });
+    writeFileSync(join(dir, "keep.txt"), "v1\n");
+    writeFileSync(join(dir, "remove.txt"), "bye\n");
+    writeFileSync(join(dir, "before.md"), "a fairly long document that git can match as a rename\n".repeat(5));
+    writeFileSync(join(dir, "script.sh"), "#!/bin/sh\n");
+    writeFileSync(join(dir, "tool"), "#!/bin/sh\necho a tool that is long enough to be detected as renamed\n");
+    chmodSync(join(dir, "tool"), 0o755);
+    const base = await commitAll(dir, "base");
+
+    writeFileSync(join(dir, "keep.txt"), "v2\n");
+    rmSync(join(dir, "remove.txt"));
+    renameSync(join(dir, "before.md"), join(dir, "after.md"));
+    chmodSync(join(dir, "script.sh"), 0o755);
+    renameSync(join(dir, "tool"), join(dir, "tool.sh"));
+    writeFileSync(join(dir, "image.bin"), Buffer.from([0x00, 0xff, 0x10, 0x80]));
+    symlinkSync("keep.txt", join(dir, "link"));
+    // Changes spread over several local commits end up in one change set
+    await commitAll(dir, "first");
+    writeFileSync(join(dir, "extra.txt"), "more\n");
+    await commitAll(dir, "second");
+
+    const changes = await collectChanges(dir, base, "HEAD");
+    const byPath = new Map(changes.map((change) => [change.path, change]));
+
+    expect(changes).toHaveLength(8);
+    expect(byPath.get("keep.txt")).toMatchObject({ action: "modify", content: Buffer.from("v2\n"), mode: "100644" });
+    expect(byPath.get("remove.txt")).toEqual({ action: "delete", path: "remove.txt", mode: "100644" });
+    expect(byPath.get("after.md")).toMatchObject({ action: "rename", previousPath: "before.md", previousMode: "100644" });
+    expect(byPath.get("script.sh")).toMatchObject({ action: "modify", mode: "100755" });
+    expect(byPath.get("tool.sh")).toMatchObject({ action: "rename", previousPath: "tool", previousMode: "100755", mode: "100755" });
+    expect(byPath.get("image.bin")).toMatchObject({ action: "add", content: Buffer.from([0x00, 0xff, 0x10, 0x80]) });
+    expect(byPath.get("link")).toMatchObject({ action: "add", content: Buffer.from("keep.txt"), mode: "120000" });
+    expect(byPath.get("extra.txt")).toMatchObject({ action: "add" });
+  });
+});
+
+describe("running the write pipeline", () => {
+  async function createWorkspace(): Promise<JobWorkspace> {
+    const dir = mkdtempSync(join(tmpdir(), "codeduck-pipeline-"));
+    await runGit(["init", "-q"], { cwd: dir });
+    writeFileSync(join(dir, "README.md"), "hello\n");
+    await runGit(["add", "-A"], { cwd: dir });
+    await runGit([...commitIdentityArgs(), "commit", "-q", "-m", "base"], { cwd: dir });
+    const baseSha = (await runGit(["rev-parse", "HEAD"], { cwd: dir })).trim();
+    return { dir, ref: { type: "branch", name: "main" }, baseSha, checkQuota: async () => {}, release: async () => {} };
+  }
+
+  function recordingOctokit() {
+    const github = vi.fn();
+    const octokit = {
+      rest: {
+        git: { getRef: github, createBlob: github, createTree: github, createCommit: github, createRef: github },
+        pulls: { create: github },
+      },
+    } as unknown as Octokit;
+    return { github, octokit };
+  }
+
+  const parsed = { mode: "write" as const, action: "implement", target: "the feature", original: "" };
+
+  it("publishes nothing when the job is stopped during checks", async () => {
+    const workspace = await createWorkspace();
+    const { github, octokit } = recordingOctokit();
+
+    const controller = new AbortController();
+    const result = await runWritePipeline({
+      octokit,
+      workspace,
+      target: { kind: "new-pr", baseBranch: "main" },
+      context,
+      parsed,
+      prompt: "Implement the feature",
+      checks: { command: "sleep 5", repairAttempts: 1 },
+      signal: controller.signal,
+      onProgress: (state) => {
+        if (state.step?.startsWith("Running checks")) {
+          setTimeout(() => controller.abort(), 50);
+        }
+      },
+    });
+
+    expect(result.response.cancelled).toBe(true);
+    expect(result.commitSha).toBeUndefined();
+    expect(github).not.toHaveBeenCalled();
+    rmSync(workspace.dir, { recursive: true, force: true });
+  });
+
+  it("keeps the installation token away from the agent in dry runs", async () => {
+    const workspace = await createWorkspace();
+    const { github, octokit } = recordingOctokit();
+    agentRuns.length = 0;
+
+    const result = await runWritePipeline({
+      octokit,
+      workspace,
+      target: { kind: "new-pr", baseBranch: "main" },
+      context,
+      parsed: { ...parsed, dryRun: true },
+      prompt: "Implement the feature",
+      checks: { command: "true" },
+      githubToken: "installation-token",
+    });
+
+    expect(agentRuns).toHaveLength(1);
+    expect(agentRuns[0].githubToken).toBeUndefined();
+    expect(result.patch).toContain("+new");
+    expect(github).not.toHaveBeenCalled();
+    rmSync(workspace.dir, { recursive: true, force: true });
+  });
+});